@@ -1,5 +1,5 @@
 import { Document } from './Document';
-import { TextDocumentItem } from './interfaces';
+import { TextDocumentItem, FileEvent } from './interfaces';
 
 export interface Host {
     on(evt: 'documentOpen|pre', listener: (document: Document) => void): this;
@@ -14,9 +14,13 @@ export interface Host {
     on(evt: 'documentChange', listener: (document: Document) => void): this;
     on(evt: 'documentChange|post', listener: (document: Document) => void): this;
 
+    on(evt: 'watchedFilesChange', listener: (changes: FileEvent[]) => void): this;
+
     on(name: string, listener: (...args: any[]) => void): void;
 
     openDocument(textDocument: TextDocumentItem): Document;
+    getDocument(uri: string): Document | undefined;
+    getWorkspaceUris(): string[];
     lockDocument(uri: string): void;
     getConfig<T>(key: string): T;
 }
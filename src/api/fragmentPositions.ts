@@ -12,6 +12,9 @@ import {
     LocationLink,
     CodeAction,
     TextDocumentEdit,
+    WorkspaceEdit,
+    FoldingRange,
+    SemanticToken,
 } from './interfaces';
 
 export function mapRangeToParent(fragment: Fragment, range: Range): Range {
@@ -32,6 +35,10 @@ export function mapTextEditToParent(fragment: Fragment, edit: TextEdit): TextEdi
     return { ...edit, range: mapRangeToParent(fragment, edit.range) };
 }
 
+export function mapTextEditToFragment(fragment: Fragment, edit: TextEdit): TextEdit {
+    return { ...edit, range: mapRangeToFragment(fragment, edit.range) };
+}
+
 export function mapLocationToParent(fragment: Fragment, loc: Location): Location {
     return { ...loc, range: mapRangeToParent(fragment, loc.range) };
 }
@@ -40,11 +47,40 @@ export function mapCompletionItemToParent(
     fragment: Fragment,
     item: CompletionItem,
 ): CompletionItem {
-    if (!item.textEdit) {
-        return item;
+    if (item.textEdit) {
+        item = { ...item, textEdit: mapTextEditToParent(fragment, item.textEdit) };
+    }
+
+    if (item.additionalTextEdits) {
+        item = {
+            ...item,
+            additionalTextEdits: item.additionalTextEdits.map(edit =>
+                mapTextEditToParent(fragment, edit),
+            ),
+        };
+    }
+
+    return item;
+}
+
+export function mapCompletionItemToFragment(
+    fragment: Fragment,
+    item: CompletionItem,
+): CompletionItem {
+    if (item.textEdit) {
+        item = { ...item, textEdit: mapTextEditToFragment(fragment, item.textEdit) };
+    }
+
+    if (item.additionalTextEdits) {
+        item = {
+            ...item,
+            additionalTextEdits: item.additionalTextEdits.map(edit =>
+                mapTextEditToFragment(fragment, edit),
+            ),
+        };
     }
 
-    return { ...item, textEdit: mapTextEditToParent(fragment, item.textEdit) };
+    return item;
 }
 
 export function mapHoverToParent(fragment: Fragment, hover: Hover): Hover {
@@ -133,3 +169,46 @@ export function mapCodeActionToParent(fragment: Fragment, codeAction: CodeAction
         codeAction.kind,
     );
 }
+
+export function mapFoldingRangeToParent(fragment: Fragment, range: FoldingRange): FoldingRange {
+    const start = fragment.positionInParent({
+        line: range.startLine,
+        character: range.startCharacter || 0,
+    });
+    const end = fragment.positionInParent({
+        line: range.endLine,
+        character: range.endCharacter || 0,
+    });
+
+    return FoldingRange.create(
+        start.line,
+        end.line,
+        range.startCharacter === undefined ? undefined : start.character,
+        range.endCharacter === undefined ? undefined : end.character,
+        range.kind,
+    );
+}
+
+export function mapSemanticTokenToParent(fragment: Fragment, token: SemanticToken): SemanticToken {
+    return { ...token, range: mapRangeToParent(fragment, token.range) };
+}
+
+export function mapWorkspaceEditToParent(fragment: Fragment, edit: WorkspaceEdit): WorkspaceEdit {
+    const uri = fragment.getURL();
+    const mapped: WorkspaceEdit = { ...edit };
+
+    if (edit.changes && edit.changes[uri]) {
+        mapped.changes = {
+            ...edit.changes,
+            [uri]: edit.changes[uri].map(textEdit => mapTextEditToParent(fragment, textEdit)),
+        };
+    }
+
+    if (edit.documentChanges) {
+        mapped.documentChanges = edit.documentChanges.map(change =>
+            TextDocumentEdit.is(change) ? mapTextDocumentEditToParent(fragment, change) : change,
+        );
+    }
+
+    return mapped;
+}
@@ -5,6 +5,7 @@ import {
     Range,
     Hover,
     MarkupContent,
+    MarkupKind,
     MarkedString,
     CompletionItem,
     CompletionItemKind,
@@ -27,7 +28,16 @@ import {
     TextDocumentIdentifier,
     VersionedTextDocumentIdentifier,
     TextDocumentContentChangeEvent,
+    WorkspaceEdit,
+    ReferenceContext,
+    SignatureHelp,
+    SignatureInformation,
+    ParameterInformation,
+    FoldingRange,
+    FoldingRangeKind,
+    FormattingOptions,
 } from 'vscode-languageserver-types';
+import { FileEvent, FileChangeType } from 'vscode-languageserver';
 import { Document } from './Document';
 
 export {
@@ -37,6 +47,7 @@ export {
     Range,
     Hover,
     MarkupContent,
+    MarkupKind,
     MarkedString,
     CompletionItem,
     CompletionItemKind,
@@ -59,6 +70,16 @@ export {
     TextDocumentIdentifier,
     VersionedTextDocumentIdentifier,
     TextDocumentContentChangeEvent,
+    WorkspaceEdit,
+    ReferenceContext,
+    SignatureHelp,
+    SignatureInformation,
+    ParameterInformation,
+    FoldingRange,
+    FoldingRangeKind,
+    FormattingOptions,
+    FileEvent,
+    FileChangeType,
 };
 
 export type Resolvable<T> = T | Promise<T>;
@@ -97,8 +118,38 @@ export namespace CompletionsProvider {
     }
 }
 
+/**
+ * Data attached to completion items so they can be resolved later on
+ */
+export interface CompletionItemData {
+    pluginId: string;
+    uri: string;
+    /**
+     * Offset in the document, or fragment, at which the completions were requested
+     */
+    offset: number;
+}
+
+export interface CompletionResolveProvider {
+    resolveCompletion(
+        document: Document,
+        completionItem: CompletionItem,
+    ): Resolvable<CompletionItem | null>;
+}
+
+export namespace CompletionResolveProvider {
+    export function is(obj: any): obj is CompletionResolveProvider {
+        return typeof obj.resolveCompletion === 'function';
+    }
+}
+
 export interface FormattingProvider {
-    formatDocument(document: Document): Resolvable<TextEdit[]>;
+    formatDocument(document: Document, options: FormattingOptions): Resolvable<TextEdit[]>;
+    formatDocumentRange(
+        document: Document,
+        range: Range,
+        options: FormattingOptions,
+    ): Resolvable<TextEdit[]>;
 }
 
 export namespace FormattingProvider {
@@ -151,6 +202,16 @@ export namespace DocumentSymbolsProvider {
     }
 }
 
+export interface WorkspaceSymbolsProvider {
+    getWorkspaceSymbols(query: string): Resolvable<SymbolInformation[]>;
+}
+
+export namespace WorkspaceSymbolsProvider {
+    export function is(obj: any): obj is WorkspaceSymbolsProvider {
+        return typeof obj.getWorkspaceSymbols === 'function';
+    }
+}
+
 export interface DefinitionsProvider {
     getDefinitions(document: Document, position: Position): Resolvable<DefinitionLink[]>;
 }
@@ -175,6 +236,117 @@ export namespace CodeActionsProvider {
     }
 }
 
+export interface RenameProvider {
+    rename(
+        document: Document,
+        position: Position,
+        newName: string,
+    ): Resolvable<WorkspaceEdit | null>;
+}
+
+export namespace RenameProvider {
+    export function is(obj: any): obj is RenameProvider {
+        return typeof obj.rename === 'function';
+    }
+}
+
+export interface ReferencesProvider {
+    findReferences(
+        document: Document,
+        position: Position,
+        context: ReferenceContext,
+    ): Resolvable<Location[]>;
+}
+
+export namespace ReferencesProvider {
+    export function is(obj: any): obj is ReferencesProvider {
+        return typeof obj.findReferences === 'function';
+    }
+}
+
+export interface SignatureHelpProvider {
+    getSignatureHelp(document: Document, position: Position): Resolvable<SignatureHelp | null>;
+}
+
+export namespace SignatureHelpProvider {
+    export function is(obj: any): obj is SignatureHelpProvider {
+        return typeof obj.getSignatureHelp === 'function';
+    }
+}
+
+export interface FoldingRangeProvider {
+    getFoldingRanges(document: Document): Resolvable<FoldingRange[]>;
+}
+
+export namespace FoldingRangeProvider {
+    export function is(obj: any): obj is FoldingRangeProvider {
+        return typeof obj.getFoldingRanges === 'function';
+    }
+}
+
+/**
+ * A semantic token as reported by a plugin. The range must not span multiple lines.
+ * The type and modifiers are names from the `semanticTokensLegend`.
+ */
+export interface SemanticToken {
+    range: Range;
+    type: string;
+    modifiers?: string[];
+}
+
+export interface SemanticTokensLegend {
+    tokenTypes: string[];
+    tokenModifiers: string[];
+}
+
+export const semanticTokensLegend: SemanticTokensLegend = {
+    tokenTypes: [
+        'namespace',
+        'type',
+        'class',
+        'enum',
+        'interface',
+        'typeParameter',
+        'parameter',
+        'variable',
+        'property',
+        'event',
+        'function',
+        'keyword',
+        'modifier',
+    ],
+    tokenModifiers: ['declaration', 'readonly'],
+};
+
+/**
+ * Encoded semantic tokens as sent to the client
+ */
+export interface SemanticTokens {
+    resultId?: string;
+    data: number[];
+}
+
+export interface SemanticTokensEdit {
+    start: number;
+    deleteCount: number;
+    data?: number[];
+}
+
+export interface SemanticTokensDelta {
+    resultId?: string;
+    edits: SemanticTokensEdit[];
+}
+
+export interface SemanticTokensProvider {
+    getSemanticTokens(document: Document): Resolvable<SemanticToken[]>;
+}
+
+export namespace SemanticTokensProvider {
+    export function is(obj: any): obj is SemanticTokensProvider {
+        return typeof obj.getSemanticTokens === 'function';
+    }
+}
+
 export interface Fragment extends Document {
     details: FragmentDetails;
 
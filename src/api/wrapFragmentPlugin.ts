@@ -20,11 +20,20 @@ import {
     DefinitionsProvider,
     CodeActionsProvider,
     CompletionList,
+    RenameProvider,
+    ReferencesProvider,
+    SignatureHelpProvider,
+    FoldingRangeProvider,
+    SemanticTokensProvider,
+    FormattingOptions,
+    Range,
+    CompletionResolveProvider,
 } from './interfaces';
 import { Document } from './Document';
 import {
     mapHoverToParent,
     mapCompletionItemToParent,
+    mapCompletionItemToFragment,
     mapDiagnosticToParent,
     mapTextEditToParent,
     mapColorInformationToParent,
@@ -34,8 +43,13 @@ import {
     mapLocationLinkToParent,
     mapDiagnosticToFragment,
     mapCodeActionToParent,
+    mapWorkspaceEditToParent,
+    mapLocationToParent,
+    mapFoldingRangeToParent,
+    mapSemanticTokenToParent,
 } from './fragmentPositions';
 import { Host, OnRegister } from './Host';
+import { computeTextEdits, applyTextEdits } from '../lib/diff';
 
 export function wrapFragmentPlugin<P extends Plugin>(
     plugin: P,
@@ -66,6 +80,8 @@ export function wrapFragmentPlugin<P extends Plugin>(
                 },
 
                 openDocument: (document: TextDocumentItem) => host.openDocument(document),
+                getDocument: (uri: string) => host.getDocument(uri),
+                getWorkspaceUris: () => host.getWorkspaceUris(),
                 lockDocument: (uri: string) => host.lockDocument(uri),
                 getConfig: (key: string) => host.getConfig(key),
             });
@@ -133,18 +149,81 @@ export function wrapFragmentPlugin<P extends Plugin>(
         };
     }
 
+    if (CompletionResolveProvider.is(plugin)) {
+        const resolveCompletion: CompletionResolveProvider['resolveCompletion'] = plugin.resolveCompletion.bind(
+            plugin,
+        );
+        plugin.resolveCompletion = async function(
+            document: Document,
+            completionItem: CompletionItem,
+        ): Promise<CompletionItem | null> {
+            const fragment = getFragment(document);
+            if (!fragment) {
+                return null;
+            }
+
+            const item = await resolveCompletion(
+                fragment,
+                mapCompletionItemToFragment(fragment, completionItem),
+            );
+            if (!item) {
+                return null;
+            }
+
+            return mapCompletionItemToParent(fragment, item);
+        };
+    }
+
     if (FormattingProvider.is(plugin)) {
         const formatDocument: FormattingProvider['formatDocument'] = plugin.formatDocument.bind(
             plugin,
         );
-        plugin.formatDocument = async function(document: Document): Promise<TextEdit[]> {
+        plugin.formatDocument = async function(
+            document: Document,
+            options: FormattingOptions,
+        ): Promise<TextEdit[]> {
             const fragment = getFragment(document);
             if (!fragment) {
                 return [];
             }
 
-            const items = await formatDocument(fragment);
-            return items.map(item => mapTextEditToParent(fragment, item));
+            const items = await formatDocument(fragment, options);
+            return minimizeTextEdits(fragment, items).map(item =>
+                mapTextEditToParent(fragment, item),
+            );
+        };
+
+        const formatDocumentRange: FormattingProvider['formatDocumentRange'] = plugin.formatDocumentRange.bind(
+            plugin,
+        );
+        plugin.formatDocumentRange = async function(
+            document: Document,
+            range: Range,
+            options: FormattingOptions,
+        ): Promise<TextEdit[]> {
+            const fragment = getFragment(document);
+            if (!fragment) {
+                return [];
+            }
+
+            // Only format the part of the range which lies inside of the fragment
+            const start = Math.max(document.offsetAt(range.start), fragment.details.start);
+            const end = Math.min(document.offsetAt(range.end), fragment.details.end);
+            if (start > end) {
+                return [];
+            }
+
+            const items = await formatDocumentRange(
+                fragment,
+                Range.create(
+                    fragment.positionAt(fragment.offsetInFragment(start)),
+                    fragment.positionAt(fragment.offsetInFragment(end)),
+                ),
+                options,
+            );
+            return minimizeTextEdits(fragment, items).map(item =>
+                mapTextEditToParent(fragment, item),
+            );
         };
     }
 
@@ -242,5 +321,99 @@ export function wrapFragmentPlugin<P extends Plugin>(
         };
     }
 
+    if (RenameProvider.is(plugin)) {
+        const rename: RenameProvider['rename'] = plugin.rename.bind(plugin);
+        plugin.rename = async function(document, position, newName) {
+            const fragment = getFragment(document);
+            if (!fragment || !fragment.isInFragment(position)) {
+                return null;
+            }
+
+            const edit = await rename(fragment, fragment.positionInFragment(position), newName);
+            if (!edit) {
+                return null;
+            }
+
+            return mapWorkspaceEditToParent(fragment, edit);
+        };
+    }
+
+    if (ReferencesProvider.is(plugin)) {
+        const findReferences: ReferencesProvider['findReferences'] = plugin.findReferences.bind(
+            plugin,
+        );
+        plugin.findReferences = async function(document, position, context) {
+            const fragment = getFragment(document);
+            if (!fragment || !fragment.isInFragment(position)) {
+                return [];
+            }
+
+            const items = await findReferences(
+                fragment,
+                fragment.positionInFragment(position),
+                context,
+            );
+            return items.map(item =>
+                item.uri === fragment.getURL() ? mapLocationToParent(fragment, item) : item,
+            );
+        };
+    }
+
+    if (SignatureHelpProvider.is(plugin)) {
+        const getSignatureHelp: SignatureHelpProvider['getSignatureHelp'] = plugin.getSignatureHelp.bind(
+            plugin,
+        );
+        plugin.getSignatureHelp = async function(document, position) {
+            const fragment = getFragment(document);
+            if (!fragment || !fragment.isInFragment(position)) {
+                return null;
+            }
+
+            return getSignatureHelp(fragment, fragment.positionInFragment(position));
+        };
+    }
+
+    if (FoldingRangeProvider.is(plugin)) {
+        const getFoldingRanges: FoldingRangeProvider['getFoldingRanges'] = plugin.getFoldingRanges.bind(
+            plugin,
+        );
+        plugin.getFoldingRanges = async function(document) {
+            const fragment = getFragment(document);
+            if (!fragment) {
+                return [];
+            }
+
+            const items = await getFoldingRanges(fragment);
+            return items.map(item => mapFoldingRangeToParent(fragment, item));
+        };
+    }
+
+    if (SemanticTokensProvider.is(plugin)) {
+        const getSemanticTokens: SemanticTokensProvider['getSemanticTokens'] = plugin.getSemanticTokens.bind(
+            plugin,
+        );
+        plugin.getSemanticTokens = async function(document) {
+            const fragment = getFragment(document);
+            if (!fragment) {
+                return [];
+            }
+
+            const items = await getSemanticTokens(fragment);
+            return items.map(item => mapSemanticTokenToParent(fragment, item));
+        };
+    }
+
     return plugin;
 }
+
+/**
+ * Formatters often replace the whole fragment, which is turned into edits of only
+ * the parts that actually changed
+ */
+function minimizeTextEdits(fragment: Document, edits: TextEdit[]): TextEdit[] {
+    if (edits.length === 0) {
+        return edits;
+    }
+
+    return computeTextEdits(fragment, applyTextEdits(fragment, edits));
+}
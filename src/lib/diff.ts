@@ -0,0 +1,224 @@
+import { Document, TextEdit, Range } from '../api';
+
+/**
+ * Computes the edits which turn the text of the document into the new text. The lines
+ * which differ are found first, then each edit is narrowed down to the characters which
+ * changed, so unchanged parts of the document keep their positions.
+ */
+export function computeTextEdits(document: Document, newText: string): TextEdit[] {
+    const oldLines = splitLines(document.getText());
+    const newLines = splitLines(newText);
+
+    const lineOffsets: number[] = [0];
+    for (const line of oldLines) {
+        lineOffsets.push(lineOffsets[lineOffsets.length - 1] + line.length);
+    }
+
+    const edits: TextEdit[] = [];
+    for (const hunk of diffLines(oldLines, newLines)) {
+        const length = hunk.oldEnd - hunk.oldStart;
+        if (length === hunk.newEnd - hunk.newStart) {
+            // Lines which were changed in place, e.g. reindented, get an edit each. Texts which
+            // differ too much to be diffed can contain unchanged lines here.
+            for (let i = 0; i < length; i++) {
+                if (oldLines[hunk.oldStart + i] === newLines[hunk.newStart + i]) {
+                    continue;
+                }
+                edits.push(
+                    narrowEdit(
+                        document,
+                        lineOffsets[hunk.oldStart + i],
+                        oldLines[hunk.oldStart + i],
+                        newLines[hunk.newStart + i],
+                    ),
+                );
+            }
+        } else {
+            edits.push(
+                narrowEdit(
+                    document,
+                    lineOffsets[hunk.oldStart],
+                    oldLines.slice(hunk.oldStart, hunk.oldEnd).join(''),
+                    newLines.slice(hunk.newStart, hunk.newEnd).join(''),
+                ),
+            );
+        }
+    }
+
+    return edits;
+}
+
+/**
+ * Returns the text of the document after applying the edits
+ */
+export function applyTextEdits(document: Document, edits: TextEdit[]): string {
+    const text = document.getText();
+    const sorted = edits
+        .map(edit => ({
+            start: document.offsetAt(edit.range.start),
+            end: document.offsetAt(edit.range.end),
+            newText: edit.newText,
+        }))
+        .sort((a, b) => a.start - b.start || a.end - b.end);
+
+    let result = '';
+    let offset = 0;
+    for (const edit of sorted) {
+        result += text.slice(offset, edit.start) + edit.newText;
+        offset = Math.max(offset, edit.end);
+    }
+
+    return result + text.slice(offset);
+}
+
+/**
+ * Creates an edit replacing the old text at the given offset, leaving out the characters
+ * at the start and end which are the same in both texts
+ */
+function narrowEdit(document: Document, offset: number, oldText: string, newText: string) {
+    const maxLength = Math.min(oldText.length, newText.length);
+
+    let prefix = 0;
+    while (prefix < maxLength && oldText[prefix] === newText[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < maxLength - prefix &&
+        oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    return TextEdit.replace(
+        Range.create(
+            document.positionAt(offset + prefix),
+            document.positionAt(offset + oldText.length - suffix),
+        ),
+        newText.slice(prefix, newText.length - suffix),
+    );
+}
+
+interface Hunk {
+    oldStart: number;
+    oldEnd: number;
+    newStart: number;
+    newEnd: number;
+}
+
+/**
+ * Splits the text into lines, keeping the line endings
+ */
+function splitLines(text: string): string[] {
+    return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+/**
+ * The maximum number of inserted and deleted lines the diff searches for. The search takes
+ * time and memory growing with the square of the distance, so texts which differ more are
+ * replaced as a whole.
+ */
+const MAX_DISTANCE = 1000;
+
+/**
+ * Finds the ranges of lines which differ using the diff algorithm of Eugene W. Myers.
+ */
+function diffLines(a: string[], b: string[]): Hunk[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const oldLines = a.slice(prefix, a.length - suffix);
+    const newLines = b.slice(prefix, b.length - suffix);
+    const n = oldLines.length;
+    const m = newLines.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Array<number>(2 * max + 3).fill(0);
+    // The furthest x of the diagonals -d to d before each step d
+    const trace: number[][] = [];
+
+    search: for (let d = 0; d <= max; d++) {
+        if (d > MAX_DISTANCE) {
+            return [
+                {
+                    oldStart: prefix,
+                    oldEnd: prefix + n,
+                    newStart: prefix,
+                    newEnd: prefix + m,
+                },
+            ];
+        }
+
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x =
+                k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                    ? v[offset + k + 1]
+                    : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && oldLines[x] === newLines[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                break search;
+            }
+        }
+    }
+
+    // Walk back through the trace to collect the lines which are equal in both texts
+    const matches: [number, number][] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+        const prev = trace[d];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && prev[d + k - 1] < prev[d + k + 1]) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : prev[d + prevK];
+        const prevY = prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            x--;
+            y--;
+            matches.push([x, y]);
+        }
+
+        if (d > 0) {
+            x = prevX;
+            y = prevY;
+        }
+    }
+    matches.reverse();
+    matches.push([n, m]);
+
+    const hunks: Hunk[] = [];
+    let oldStart = 0;
+    let newStart = 0;
+    for (const [oldIndex, newIndex] of matches) {
+        if (oldIndex > oldStart || newIndex > newStart) {
+            hunks.push({
+                oldStart: prefix + oldStart,
+                oldEnd: prefix + oldIndex,
+                newStart: prefix + newStart,
+                newEnd: prefix + newIndex,
+            });
+        }
+        oldStart = oldIndex + 1;
+        newStart = newIndex + 1;
+    }
+
+    return hunks;
+}
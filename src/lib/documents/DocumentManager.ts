@@ -1,5 +1,6 @@
 import { PluginHost, ExecuteMode } from '../PluginHost';
 import { flatten } from '../../utils';
+import { encodeSemanticTokens, computeSemanticTokensDelta } from '../semanticTokens';
 import {
     Document,
     Diagnostic,
@@ -20,15 +21,30 @@ import {
     CodeActionContext,
     CodeAction,
     CompletionList,
+    WorkspaceEdit,
+    TextDocumentEdit,
+    Location,
+    ReferenceContext,
+    SignatureHelp,
+    FoldingRange,
+    SemanticToken,
+    SemanticTokens,
+    SemanticTokensDelta,
+    FileEvent,
+    FormattingOptions,
+    CompletionItemData,
 } from '../../api';
 
 export interface DocumentManager {
     on(evt: 'documentChange', listener: (document: Document) => void): this;
+    on(evt: 'watchedFilesChange', listener: (changes: FileEvent[]) => void): this;
 }
 
 export class DocumentManager extends PluginHost {
     public documents: Map<string, Document> = new Map();
     public locked = new Set<string>();
+    public workspaceUris: string[] = [];
+    private semanticTokens = new Map<string, SemanticTokens>();
 
     constructor(private createDocument: (textDocument: TextDocumentItem) => Document) {
         super();
@@ -50,6 +66,18 @@ export class DocumentManager extends PluginHost {
         return document;
     }
 
+    getDocument(uri: string): Document | undefined {
+        return this.documents.get(uri);
+    }
+
+    getWorkspaceUris(): string[] {
+        return this.workspaceUris;
+    }
+
+    setWorkspaceUris(uris: string[]): void {
+        this.workspaceUris = uris;
+    }
+
     lockDocument(uri: string): void {
         this.locked.add(uri);
     }
@@ -61,6 +89,7 @@ export class DocumentManager extends PluginHost {
         }
 
         this.notify('documentClose', document);
+        this.semanticTokens.delete(textDocument.uri);
 
         // Some plugin may prevent a document from actually being closed.
         if (!this.locked.has(textDocument.uri)) {
@@ -93,6 +122,10 @@ export class DocumentManager extends PluginHost {
         this.notify('documentChange', document);
     }
 
+    updateWatchedFiles(changes: FileEvent[]) {
+        this.notify('watchedFilesChange', changes);
+    }
+
     async getDiagnostics(textDocument: TextDocumentIdentifier): Promise<Diagnostic[]> {
         const document = this.documents.get(textDocument.uri);
         if (!document) {
@@ -138,14 +171,60 @@ export class DocumentManager extends PluginHost {
         );
     }
 
-    async formatDocument(textDocument: TextDocumentIdentifier): Promise<TextEdit[]> {
+    async resolveCompletion(completionItem: CompletionItem): Promise<CompletionItem> {
+        const data: CompletionItemData | undefined = completionItem.data;
+        if (!data || !data.uri) {
+            return completionItem;
+        }
+
+        const document = this.documents.get(data.uri);
+        if (!document) {
+            throw new Error('Cannot call methods on an unopened document');
+        }
+
+        const item = await this.execute<CompletionItem>(
+            'resolveCompletion',
+            [document, completionItem],
+            ExecuteMode.FirstNonNull,
+        );
+
+        return item || completionItem;
+    }
+
+    async formatDocument(
+        textDocument: TextDocumentIdentifier,
+        options: FormattingOptions,
+    ): Promise<TextEdit[]> {
+        const document = this.documents.get(textDocument.uri);
+        if (!document) {
+            throw new Error('Cannot call methods on an unopened document');
+        }
+
+        return flatten(
+            await this.execute<TextEdit[]>(
+                'formatDocument',
+                [document, options],
+                ExecuteMode.Collect,
+            ),
+        );
+    }
+
+    async formatDocumentRange(
+        textDocument: TextDocumentIdentifier,
+        range: Range,
+        options: FormattingOptions,
+    ): Promise<TextEdit[]> {
         const document = this.documents.get(textDocument.uri);
         if (!document) {
             throw new Error('Cannot call methods on an unopened document');
         }
 
         return flatten(
-            await this.execute<TextEdit[]>('formatDocument', [document], ExecuteMode.Collect),
+            await this.execute<TextEdit[]>(
+                'formatDocumentRange',
+                [document, range, options],
+                ExecuteMode.Collect,
+            ),
         );
     }
 
@@ -214,6 +293,16 @@ export class DocumentManager extends PluginHost {
         );
     }
 
+    async getWorkspaceSymbols(query: string): Promise<SymbolInformation[]> {
+        return flatten(
+            await this.execute<SymbolInformation[]>(
+                'getWorkspaceSymbols',
+                [query],
+                ExecuteMode.Collect,
+            ),
+        );
+    }
+
     async getDefinitions(
         textDocument: TextDocumentIdentifier,
         position: Position,
@@ -250,4 +339,130 @@ export class DocumentManager extends PluginHost {
             ),
         );
     }
+
+    async findReferences(
+        textDocument: TextDocumentIdentifier,
+        position: Position,
+        context: ReferenceContext,
+    ): Promise<Location[]> {
+        const document = this.documents.get(textDocument.uri);
+        if (!document) {
+            throw new Error('Cannot call methods on an unopened document');
+        }
+
+        return flatten(
+            await this.execute<Location[]>(
+                'findReferences',
+                [document, position, context],
+                ExecuteMode.Collect,
+            ),
+        );
+    }
+
+    async getSignatureHelp(
+        textDocument: TextDocumentIdentifier,
+        position: Position,
+    ): Promise<SignatureHelp | null> {
+        const document = this.documents.get(textDocument.uri);
+        if (!document) {
+            throw new Error('Cannot call methods on an unopened document');
+        }
+
+        return this.execute<SignatureHelp>(
+            'getSignatureHelp',
+            [document, position],
+            ExecuteMode.FirstNonNull,
+        );
+    }
+
+    async getFoldingRanges(textDocument: TextDocumentIdentifier): Promise<FoldingRange[]> {
+        const document = this.documents.get(textDocument.uri);
+        if (!document) {
+            throw new Error('Cannot call methods on an unopened document');
+        }
+
+        return flatten(
+            await this.execute<FoldingRange[]>('getFoldingRanges', [document], ExecuteMode.Collect),
+        );
+    }
+
+    async getSemanticTokens(textDocument: TextDocumentIdentifier): Promise<SemanticTokens> {
+        const document = this.documents.get(textDocument.uri);
+        if (!document) {
+            throw new Error('Cannot call methods on an unopened document');
+        }
+
+        const tokens = encodeSemanticTokens(
+            flatten(
+                await this.execute<SemanticToken[]>(
+                    'getSemanticTokens',
+                    [document],
+                    ExecuteMode.Collect,
+                ),
+            ),
+        );
+        this.semanticTokens.set(textDocument.uri, tokens);
+
+        return tokens;
+    }
+
+    /**
+     * Returns the changes since the given previous result, or all tokens if that
+     * result is no longer known.
+     */
+    async getSemanticTokensDelta(
+        textDocument: TextDocumentIdentifier,
+        previousResultId: string,
+    ): Promise<SemanticTokens | SemanticTokensDelta> {
+        const previous = this.semanticTokens.get(textDocument.uri);
+        const tokens = await this.getSemanticTokens(textDocument);
+        if (!previous || previous.resultId !== previousResultId) {
+            return tokens;
+        }
+
+        return computeSemanticTokensDelta(previous, tokens);
+    }
+
+    async rename(
+        textDocument: TextDocumentIdentifier,
+        position: Position,
+        newName: string,
+    ): Promise<WorkspaceEdit | null> {
+        const document = this.documents.get(textDocument.uri);
+        if (!document) {
+            throw new Error('Cannot call methods on an unopened document');
+        }
+
+        const edits = (await this.execute<WorkspaceEdit | null>(
+            'rename',
+            [document, position, newName],
+            ExecuteMode.Collect,
+        )).filter(edit => edit != null) as WorkspaceEdit[];
+
+        if (edits.length === 0) {
+            return null;
+        }
+
+        return mergeWorkspaceEdits(edits);
+    }
+}
+
+/**
+ * Combines the edits of multiple plugins, e.g. the script and markup parts of a rename.
+ */
+function mergeWorkspaceEdits(edits: WorkspaceEdit[]): WorkspaceEdit {
+    const changes: Record<string, TextEdit[]> = {};
+    for (const edit of edits) {
+        for (const uri of Object.keys(edit.changes || {})) {
+            changes[uri] = [...(changes[uri] || []), ...edit.changes![uri]];
+        }
+        for (const change of edit.documentChanges || []) {
+            if (TextDocumentEdit.is(change)) {
+                const uri = change.textDocument.uri;
+                changes[uri] = [...(changes[uri] || []), ...change.edits];
+            }
+        }
+    }
+
+    return { changes };
 }
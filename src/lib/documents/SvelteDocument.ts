@@ -1,23 +1,51 @@
 import { DocumentFragment } from './DocumentFragment';
+import { VirtualScriptFragment } from './VirtualScriptFragment';
 import { urlToPath } from '../../utils';
 import { Document, Fragment, FragmentDetails } from '../../api';
 
+/**
+ * The languages of the markup, scripts and styles which don't have a `lang` or `type`
+ * attribute, e.g. `typescript` and `scss`
+ */
+export interface DefaultLanguages {
+    markup?: string;
+    script?: string;
+    style?: string;
+}
+
 /**
  * Represents a text document that contains a svelte component.
  */
 export class SvelteDocument extends Document {
+    /**
+     * The instance script of the component
+     */
     public script: Fragment;
+    /**
+     * The script with `context="module"`, which runs once when the module is evaluated
+     */
+    public moduleScript: Fragment;
     public style: Fragment;
+    public virtualScript: VirtualScriptFragment;
 
-    constructor(public url: string, public content: string) {
+    constructor(
+        public url: string,
+        public content: string,
+        public defaultLanguages: DefaultLanguages = {},
+    ) {
         super();
 
         this.script = this.addFragment(
             new DocumentFragment(this, new SvelteFragment(this, 'script')),
         );
+        this.moduleScript = this.addFragment(
+            new DocumentFragment(this, new SvelteFragment(this, 'script', true)),
+        );
         this.style = this.addFragment(
             new DocumentFragment(this, new SvelteFragment(this, 'style')),
         );
+        this.virtualScript = new VirtualScriptFragment(this);
+        this.addFragment(this.virtualScript);
     }
 
     /**
@@ -49,13 +77,26 @@ export class SvelteDocument extends Document {
     getAttributes() {
         return {};
     }
+
+    /**
+     * Set the languages of the tags without a `lang` or `type` attribute and increase the
+     * document version, e.g. when the svelte config changed
+     */
+    setDefaultLanguages(languages: DefaultLanguages) {
+        this.defaultLanguages = languages;
+        this.version++;
+    }
 }
 
 export class SvelteFragment implements FragmentDetails {
     private info!: FragmentDetails;
     private version = -1;
 
-    constructor(public document: SvelteDocument, public tag: 'style' | 'script') {
+    constructor(
+        public document: SvelteDocument,
+        public tag: 'style' | 'script',
+        public isModule = false,
+    ) {
         this.update();
     }
 
@@ -74,9 +115,19 @@ export class SvelteFragment implements FragmentDetails {
         return this.info.container;
     }
 
+    /**
+     * The attributes of the tag. The default language of the tag is added as `lang` if the
+     * tag doesn't specify one.
+     */
     get attributes(): Record<string, string> {
         this.update();
-        return { ...this.info.attributes, tag: this.tag };
+        const attributes: Record<string, string> = { ...this.info.attributes, tag: this.tag };
+        const lang = this.document.defaultLanguages[this.tag];
+        if (lang && !attributes.lang && !attributes.type) {
+            attributes.lang = lang;
+        }
+
+        return attributes;
     }
 
     /**
@@ -88,7 +139,7 @@ export class SvelteFragment implements FragmentDetails {
         }
 
         this.version = this.document.version;
-        const info = extractTag(this.document.getText(), this.tag);
+        const info = extractTag(this.document.getText(), this.tag, this.isModule);
         if (info) {
             this.info = info;
             return;
@@ -113,8 +164,7 @@ function parseAttributeValue(value: string): string {
 
 function parseAttributes(str: string): Record<string, string> {
     const attrs: Record<string, string> = {};
-    str
-        .split(/\s+/)
+    str.split(/\s+/)
         .filter(Boolean)
         .forEach(attr => {
             const [name, value] = attr.split('=');
@@ -123,15 +173,25 @@ function parseAttributes(str: string): Record<string, string> {
     return attrs;
 }
 
-function extractTag(source: string, tag: 'script' | 'style') {
+/**
+ * Finds the first tag which has `context="module"` if isModule is true, or which doesn't
+ * have it otherwise
+ */
+function extractTag(source: string, tag: 'script' | 'style', isModule: boolean) {
     const exp = new RegExp(`(<${tag}([\\S\\s]*?)>)([\\S\\s]*?)<\\/${tag}>`, 'ig');
-    const match = exp.exec(source);
+    let match: RegExpExecArray | null;
+    let attributes: Record<string, string> = {};
+    while ((match = exp.exec(source))) {
+        attributes = parseAttributes(match[2]);
+        if ((attributes.context === 'module') === isModule) {
+            break;
+        }
+    }
 
     if (!match) {
         return null;
     }
 
-    const attributes = parseAttributes(match[2]);
     const content = match[3];
     const start = match.index + match[1].length;
     const end = start + content.length;
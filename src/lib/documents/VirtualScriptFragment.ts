@@ -0,0 +1,188 @@
+import { Position, Document, Fragment, FragmentDetails } from '../../api';
+import {
+    generateVirtualScript,
+    VirtualScript,
+    Mapping,
+    Shorthand,
+} from '../../plugins/typescript/virtualScript';
+import { SvelteDocument } from './SvelteDocument';
+
+/**
+ * The scripts of a component together with the expressions of its markup. Unlike other
+ * fragments its text isn't a slice of the parent, so offsets are mapped through the parts of
+ * the component which were copied into it.
+ */
+export class VirtualScriptFragment extends Document implements Fragment {
+    private generated!: VirtualScript;
+    private generatedVersion = -1;
+
+    constructor(private parent: SvelteDocument) {
+        super();
+    }
+
+    /**
+     * The details of the instance script, or of the module script if there's only that one
+     */
+    get details(): FragmentDetails {
+        const { script, moduleScript } = this.parent;
+        const { container } = script.details;
+        return container!.start === container!.end ? moduleScript.details : script.details;
+    }
+
+    /**
+     * Returns true if the component has an instance or a module script. Without one the code of
+     * the scripts is empty and placed at the end of the parent.
+     */
+    hasScript(): boolean {
+        const { start, container } = this.details;
+        return container!.start !== start;
+    }
+
+    /**
+     * Get the fragment offset relative to the parent. Offsets in generated code are mapped to
+     * the end of the preceding copied part.
+     * @param offset Offset in fragment
+     */
+    offsetInParent(offset: number): number {
+        const { mappings } = this.generate();
+        let mapping = mappings[0];
+        for (const other of mappings) {
+            if (other.generatedStart > offset) {
+                break;
+            }
+            mapping = other;
+        }
+
+        return mapping.originalStart + Math.min(offset - mapping.generatedStart, mapping.length);
+    }
+
+    /**
+     * Get the fragment position relative to the parent
+     * @param pos Position in fragment
+     */
+    positionInParent(pos: Position): Position {
+        return this.parent.positionAt(this.offsetInParent(this.offsetAt(pos)));
+    }
+
+    /**
+     * Get the offset relative to the start of the fragment. Offsets in the parent which weren't
+     * copied are mapped to the end of the preceding copied part.
+     * @param offset Offset in parent
+     */
+    offsetInFragment(offset: number): number {
+        let mapping: Mapping | undefined;
+        for (const other of this.generate().mappings) {
+            if (
+                other.originalStart <= offset &&
+                (!mapping || other.originalStart > mapping.originalStart)
+            ) {
+                mapping = other;
+            }
+        }
+
+        if (!mapping) {
+            return 0;
+        }
+
+        return mapping.generatedStart + Math.min(offset - mapping.originalStart, mapping.length);
+    }
+
+    /**
+     * Get the position relative to the start of the fragment
+     * @param pos Position in parent
+     */
+    positionInFragment(pos: Position): Position {
+        return this.positionAt(this.offsetInFragment(this.parent.offsetAt(pos)));
+    }
+
+    /**
+     * Returns true if the given parent position is inside of a script or an expression
+     * of the markup
+     * @param pos Position in parent
+     */
+    isInFragment(pos: Position): boolean {
+        const offset = this.parent.offsetAt(pos);
+        return this.generate().mappings.some(
+            mapping =>
+                offset >= mapping.originalStart && offset <= mapping.originalStart + mapping.length,
+        );
+    }
+
+    /**
+     * Returns true if the offset is inside of the scripts rather than the markup
+     * @param offset Offset in fragment
+     */
+    isInScript(offset: number): boolean {
+        return offset <= this.generate().scriptLength;
+    }
+
+    /**
+     * Returns true if the offset is inside of code which doesn't exist in the parent
+     * @param offset Offset in fragment
+     */
+    isGenerated(offset: number): boolean {
+        return !this.generate().mappings.some(
+            mapping =>
+                offset >= mapping.generatedStart &&
+                offset <= mapping.generatedStart + mapping.length,
+        );
+    }
+
+    /**
+     * Get the shorthand which contains the offset, e.g. `{name}` or the name of `bind:name`
+     * @param offset Offset in fragment
+     */
+    getShorthandAt(offset: number): Shorthand | null {
+        return (
+            this.generate().shorthands.find(
+                shorthand =>
+                    offset >= shorthand.generatedStart &&
+                    offset <= shorthand.generatedStart + shorthand.length,
+            ) || null
+        );
+    }
+
+    getText(): string {
+        return this.generate().code;
+    }
+
+    setText(): void {
+        throw new Error('Cannot set the text of a virtual script');
+    }
+
+    getFilePath(): string | null {
+        return this.parent.getFilePath();
+    }
+
+    getURL() {
+        return this.parent.getURL();
+    }
+
+    get version(): number {
+        return this.parent.version;
+    }
+
+    set version(version: number) {
+        // ignore
+    }
+
+    getAttributes() {
+        return this.details.attributes;
+    }
+
+    /**
+     * Generate the code again if the parent changed
+     */
+    private generate(): VirtualScript {
+        if (this.parent.version !== this.generatedVersion) {
+            this.generatedVersion = this.parent.version;
+            this.generated = generateVirtualScript(
+                this.parent.getText(),
+                this.parent.script.details,
+                this.parent.moduleScript.details,
+            );
+        }
+
+        return this.generated;
+    }
+}
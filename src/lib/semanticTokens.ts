@@ -0,0 +1,93 @@
+import { SemanticToken, SemanticTokens, SemanticTokensDelta, semanticTokensLegend } from '../api';
+
+let lastResultId = 0;
+
+/**
+ * Encodes semantic tokens into the relative format of the language server protocol.
+ * Tokens of unknown types, tokens spanning multiple lines and tokens overlapping a
+ * previous token are dropped.
+ */
+export function encodeSemanticTokens(tokens: SemanticToken[]): SemanticTokens {
+    const sorted = tokens
+        .filter(
+            token =>
+                token.range.start.line === token.range.end.line &&
+                token.range.end.character > token.range.start.character &&
+                semanticTokensLegend.tokenTypes.includes(token.type),
+        )
+        .sort(
+            (a, b) =>
+                a.range.start.line - b.range.start.line ||
+                a.range.start.character - b.range.start.character,
+        );
+
+    const data: number[] = [];
+    let prevLine = 0;
+    let prevStart = 0;
+    let prevEnd = 0;
+    for (const token of sorted) {
+        const { line, character } = token.range.start;
+        if (data.length > 0 && line === prevLine && character < prevEnd) {
+            continue;
+        }
+
+        const modifiers = (token.modifiers || []).reduce((bits, modifier) => {
+            const index = semanticTokensLegend.tokenModifiers.indexOf(modifier);
+            return index === -1 ? bits : bits | (1 << index);
+        }, 0);
+
+        data.push(
+            line - prevLine,
+            line === prevLine ? character - prevStart : character,
+            token.range.end.character - character,
+            semanticTokensLegend.tokenTypes.indexOf(token.type),
+            modifiers,
+        );
+        prevLine = line;
+        prevStart = character;
+        prevEnd = token.range.end.character;
+    }
+
+    return { resultId: String(++lastResultId), data };
+}
+
+/**
+ * Computes the edits turning the previous tokens into the current ones. The edit
+ * replaces everything between the common start and the common end of both.
+ */
+export function computeSemanticTokensDelta(
+    previous: SemanticTokens,
+    current: SemanticTokens,
+): SemanticTokensDelta {
+    const prevData = previous.data;
+    const data = current.data;
+
+    let start = 0;
+    while (start < prevData.length && start < data.length && prevData[start] === data[start]) {
+        start++;
+    }
+
+    let end = 0;
+    while (
+        end < prevData.length - start &&
+        end < data.length - start &&
+        prevData[prevData.length - 1 - end] === data[data.length - 1 - end]
+    ) {
+        end++;
+    }
+
+    if (start === prevData.length && start === data.length) {
+        return { resultId: current.resultId, edits: [] };
+    }
+
+    return {
+        resultId: current.resultId,
+        edits: [
+            {
+                start,
+                deleteCount: prevData.length - start - end,
+                data: data.slice(start, data.length - end),
+            },
+        ],
+    };
+}
@@ -25,6 +25,8 @@ import {
     ColorPresentation,
     DocumentSymbolsProvider,
     SymbolInformation,
+    FoldingRangeProvider,
+    FoldingRange,
 } from '../api';
 import { getEmmetCompletionParticipants } from 'vscode-emmet-helper';
 
@@ -35,7 +37,8 @@ export class CSSPlugin
         DiagnosticsProvider,
         DocumentColorsProvider,
         ColorPresentationsProvider,
-        DocumentSymbolsProvider {
+        DocumentSymbolsProvider,
+        FoldingRangeProvider {
     private readonly triggerCharacters = ['/'];
             
     public static matchFragment(fragment: Fragment) {
@@ -51,6 +54,7 @@ export class CSSPlugin
         documentColors: { enable: true },
         colorPresentations: { enable: true },
         documentSymbols: { enable: true },
+        foldingRanges: { enable: true },
     };
 
     private host!: Host;
@@ -193,6 +197,14 @@ export class CSSPlugin
                 return symbol;
             });
     }
+
+    getFoldingRanges(document: Document): FoldingRange[] {
+        if (!this.host.getConfig<boolean>('css.foldingRanges.enable')) {
+            return [];
+        }
+
+        return getLanguageService(extractLanguage(document)).getFoldingRanges(document);
+    }
 }
 
 const langs = {
@@ -201,7 +213,7 @@ const langs = {
     less: getLESSLanguageService(),
 };
 
-function extractLanguage(document: Document): string {
+export function extractLanguage(document: Document): string {
     const attrs = document.getAttributes();
     return attrs.lang || attrs.type;
 }
@@ -231,7 +243,7 @@ function shouldExcludeValidation(kind?: string) {
     }
 }
 
-function getLanguageService(kind?: string): LanguageService {
+export function getLanguageService(kind?: string): LanguageService {
     const lang = getLanguage(kind);
     return langs[lang];
 }
@@ -9,10 +9,12 @@ import {
     HoverProvider,
     Position,
     SymbolInformation,
+    FoldingRangeProvider,
+    FoldingRange,
 } from '../api';
 import { svelteHtmlDataProvider } from './html/dataProvider';
 
-export class HTMLPlugin implements HoverProvider, CompletionsProvider {
+export class HTMLPlugin implements HoverProvider, CompletionsProvider, FoldingRangeProvider {
     public pluginId = 'html';
     public defaultConfig = {
         enable: true,
@@ -20,6 +22,7 @@ export class HTMLPlugin implements HoverProvider, CompletionsProvider {
         completions: { enable: true },
         tagComplete: { enable: true },
         documentSymbols: { enable: true },
+        foldingRanges: { enable: true },
     };
 
     private host!: Host;
@@ -93,4 +96,12 @@ export class HTMLPlugin implements HoverProvider, CompletionsProvider {
 
         return this.lang.findDocumentSymbols(document, html);
     }
+
+    getFoldingRanges(document: Document): FoldingRange[] {
+        if (!this.host.getConfig<boolean>('html.foldingRanges.enable')) {
+            return [];
+        }
+
+        return this.lang.getFoldingRanges(document);
+    }
 }
@@ -1,4 +1,4 @@
-import cosmic from 'cosmiconfig';
+import { readFileSync } from 'fs';
 import * as prettier from 'prettier';
 import {
     DiagnosticsProvider,
@@ -11,33 +11,107 @@ import {
     Host,
     FormattingProvider,
     TextEdit,
+    FoldingRangeProvider,
+    FoldingRange,
+    SemanticTokensProvider,
+    SemanticToken,
+    WorkspaceSymbolsProvider,
+    SymbolInformation,
+    FileEvent,
+    FileChangeType,
+    FormattingOptions,
+    CompletionsProvider,
+    CompletionList,
+    CompletionItem,
+    CompletionItemKind,
+    InsertTextFormat,
+    MarkupKind,
+    MarkupContent,
+    HoverProvider,
+    Hover,
+    DefinitionsProvider,
+    DefinitionLink,
+    LocationLink,
 } from '../api';
 import { SvelteDocument } from '../lib/documents/SvelteDocument';
 import { RawSourceMap, RawIndexMap, SourceMapConsumer } from 'source-map';
-import { CompileOptions, Warning } from 'svelte/types/compiler/interfaces';
+import { Warning, Node } from 'svelte/types/compiler/interfaces';
 import { importSvelte, getSveltePackageInfo } from './svelte/sveltePackage';
 import { PreprocessorGroup } from 'svelte/types/compiler/preprocess';
+import {
+    parseMarkup,
+    findBlockBranches,
+    getStartTagAt,
+    walkNodes,
+    StartTag,
+    findSlots,
+    findSlotAttributeAt,
+    getStaticAttributeValue,
+    SlotDeclaration,
+} from './svelte/markup';
+import {
+    getComponentImports,
+    resolveComponentImport,
+    findSvelteFiles,
+    getComponentProps,
+    ComponentProp,
+    getComponentEvents,
+    ComponentEvent,
+} from './svelte/components';
+import { findMarkupTokens, findStoreReferences, MarkupToken } from './svelte/semanticTokens';
+import { getComponentSymbols, matchesSymbolQuery } from './svelte/symbols';
+import { pathToUrl, urlToPath, flatten } from '../utils';
+import { computeTextEdits } from '../lib/diff';
+import { loadConfig } from './svelte/config';
 
-interface SvelteConfig extends CompileOptions {
-    preprocess?: PreprocessorGroup;
-}
-
-const DEFAULT_OPTIONS: CompileOptions = {
-    dev: true,
-};
-
-export class SveltePlugin implements DiagnosticsProvider, FormattingProvider {
+export class SveltePlugin
+    implements
+        DiagnosticsProvider,
+        FormattingProvider,
+        FoldingRangeProvider,
+        SemanticTokensProvider,
+        WorkspaceSymbolsProvider,
+        CompletionsProvider,
+        HoverProvider,
+        DefinitionsProvider {
     public pluginId = 'svelte';
     public defaultConfig = {
         enable: true,
         diagnostics: { enable: true },
+        completions: { enable: true },
+        hover: { enable: true },
+        definitions: { enable: true },
         format: { enable: true },
+        foldingRanges: { enable: true },
+        semanticTokens: { enable: true },
+        workspaceSymbols: { enable: true },
     };
 
     private host!: Host;
+    /**
+     * Symbols of the svelte files in the workspace by uri. Null marks files which
+     * need to be (re)indexed on the next query.
+     */
+    private workspaceSymbols = new Map<string, SymbolInformation[] | null>();
+    private workspaceIndexed = false;
 
     onRegister(host: Host) {
         this.host = host;
+        host.on('documentChange', document => this.workspaceSymbols.set(document.getURL(), null));
+        host.on('documentClose', document => this.workspaceSymbols.set(document.getURL(), null));
+        host.on('watchedFilesChange', (changes: FileEvent[]) => {
+            for (const change of changes) {
+                if (!change.uri.endsWith('.svelte')) {
+                    continue;
+                }
+
+                if (change.type === FileChangeType.Deleted) {
+                    this.workspaceSymbols.delete(change.uri);
+                } else {
+                    this.workspaceSymbols.set(change.uri, null);
+                }
+            }
+        });
     }
 
     async getDiagnostics(document: Document): Promise<Diagnostic[]> {
@@ -47,7 +121,7 @@ export class SveltePlugin implements DiagnosticsProvider, FormattingProvider {
 
         let source = document.getText();
 
-        const config = await this.loadConfig(document.getFilePath()!);
+        const config = loadConfig(document.getFilePath()!);
         const svelte = importSvelte(document.getFilePath()!);
 
         const preprocessor = makePreprocessor(document as SvelteDocument, config.preprocess);
@@ -89,40 +163,549 @@ export class SveltePlugin implements DiagnosticsProvider, FormattingProvider {
         }
 
         await fixDiagnostics(document, preprocessor, diagnostics);
+        return [...diagnostics, ...this.getPropDiagnostics(document as SvelteDocument)];
+    }
+
+    /**
+     * Reports props passed to imported components which they don't declare, and required
+     * props which aren't passed
+     */
+    private getPropDiagnostics(document: SvelteDocument): Diagnostic[] {
+        const text = document.getText();
+        const html = parseMarkup(importSvelte(document.getFilePath()!), text);
+        if (!html) {
+            return [];
+        }
+
+        const diagnostics: Diagnostic[] = [];
+        const warn = (start: number, end: number, message: string, code: string) =>
+            diagnostics.push({
+                range: Range.create(document.positionAt(start), document.positionAt(end)),
+                message,
+                severity: DiagnosticSeverity.Warning,
+                source: 'svelte',
+                code,
+            });
+
+        walkNodes(html, node => {
+            if (node.type !== 'InlineComponent') {
+                return;
+            }
+
+            const component = this.getImportedComponent(document, node.name);
+            if (!component || node.attributes.some((attr: Node) => attr.type === 'Spread')) {
+                return;
+            }
+
+            const props = getComponentProps(component.script.getText());
+            // Components which use $$props or $$restProps can receive any prop
+            const acceptsAnyProp = /\$\$(props|restProps)\b/.test(component.getText());
+            const passed: string[] = [];
+            for (const attr of node.attributes) {
+                const isProp =
+                    (attr.type === 'Attribute' && attr.name !== 'slot') ||
+                    (attr.type === 'Binding' && attr.name !== 'this');
+                if (!isProp) {
+                    continue;
+                }
+
+                passed.push(attr.name);
+                if (!acceptsAnyProp && !props.some(prop => prop.name === attr.name)) {
+                    const start =
+                        attr.type === 'Binding' ? attr.start + 'bind:'.length : attr.start;
+                    warn(
+                        start,
+                        start + attr.name.length,
+                        `<${node.name}> was created with unknown prop '${attr.name}'`,
+                        'unknown-prop',
+                    );
+                }
+            }
+
+            for (const prop of props) {
+                if (prop.defaultValue === undefined && !passed.includes(prop.name)) {
+                    warn(
+                        node.start + 1,
+                        node.start + 1 + node.name.length,
+                        `<${node.name}> was created without expected prop '${prop.name}'`,
+                        'missing-prop',
+                    );
+                }
+            }
+        });
+
         return diagnostics;
     }
 
-    private async loadConfig(path: string): Promise<SvelteConfig> {
-        try {
-            const { config } = await cosmic('svelte', {
-                packageProp: false,
-            }).load(path);
-            return { ...DEFAULT_OPTIONS, ...config };
-        } catch (err) {
-            return { ...DEFAULT_OPTIONS, preprocess: {} };
+    /**
+     * Suggests the props, events and slot props of an imported component as attributes of its
+     * tag, and the names of its slots as values of `slot` attributes
+     */
+    getCompletions(document: Document, position: Position): CompletionList | null {
+        if (!this.host.getConfig<boolean>('svelte.completions.enable')) {
+            return null;
+        }
+
+        const offset = document.offsetAt(position);
+        const tag = getStartTagAt(document.getText(), offset);
+        if (!tag) {
+            return this.getSlotNameCompletions(document as SvelteDocument, offset);
+        }
+
+        // The name is replaced as a whole since editors may not treat `on:` as part of a word
+        const range = Range.create(document.positionAt(tag.attributeStart), position);
+        const component = this.getImportedComponent(document as SvelteDocument, tag.name);
+        if (!component) {
+            const filled = this.findFilledSlot(document as SvelteDocument, tag, offset);
+            return (
+                filled &&
+                CompletionList.create(
+                    this.getLetCompletions(filled.component, filled.slot, tag, range),
+                )
+            );
+        }
+
+        const items = getComponentProps(component.script.getText())
+            .filter(prop => !tag.attributes.includes(prop.name))
+            .map(
+                prop =>
+                    <CompletionItem>{
+                        label: prop.name,
+                        kind: CompletionItemKind.Property,
+                        detail: prop.type ? `${prop.name}: ${prop.type}` : prop.name,
+                        documentation: getPropDocumentation(prop),
+                        insertText: `${prop.name}={$1}`,
+                        insertTextFormat: InsertTextFormat.Snippet,
+                        sortText: '0',
+                    },
+            );
+
+        for (const event of this.getEvents(component)) {
+            items.push({
+                label: `on:${event.name}`,
+                kind: CompletionItemKind.Event,
+                detail: getEventType(event),
+                documentation: event.documentation,
+                textEdit: TextEdit.replace(range, `on:${event.name}={$1}`),
+                insertTextFormat: InsertTextFormat.Snippet,
+                sortText: '0',
+            });
+        }
+        items.push(...this.getLetCompletions(component, 'default', tag, range));
+
+        return CompletionList.create(items);
+    }
+
+    /**
+     * Suggests the props a slot of a component passes to its content, e.g. `let:item`
+     */
+    private getLetCompletions(
+        component: SvelteDocument,
+        slotName: string,
+        tag: StartTag,
+        range: Range,
+    ): CompletionItem[] {
+        const slot = this.getSlots(component).find(slot => slot.name === slotName);
+        if (!slot) {
+            return [];
+        }
+
+        return slot.props
+            .filter(prop => !tag.attributes.includes(`let:${prop}`))
+            .map(prop => ({
+                label: `let:${prop}`,
+                kind: CompletionItemKind.Variable,
+                detail: `Prop of the ${slotName} slot`,
+                textEdit: TextEdit.replace(range, `let:${prop}`),
+                sortText: '0',
+            }));
+    }
+
+    /**
+     * Suggests the named slots of a component as the value of the `slot` attribute of an
+     * element passed to it
+     */
+    private getSlotNameCompletions(
+        document: SvelteDocument,
+        offset: number,
+    ): CompletionList | null {
+        const text = document.getText();
+        const html = parseMarkup(importSvelte(document.getFilePath()!), text);
+        const slotAttribute = html && findSlotAttributeAt(html, offset);
+        if (
+            !slotAttribute ||
+            !/^slot=["']?[\w-]*$/.test(text.slice(slotAttribute.attribute.start, offset))
+        ) {
+            return null;
+        }
+
+        const component = this.getImportedComponent(document, slotAttribute.component.name);
+        if (!component) {
+            return null;
+        }
+
+        return CompletionList.create(
+            this.getSlots(component)
+                .filter(slot => slot.name !== 'default')
+                .map(slot => ({
+                    label: slot.name,
+                    kind: CompletionItemKind.Value,
+                    sortText: '0',
+                })),
+        );
+    }
+
+    /**
+     * Returns the component and the name of the slot which the element of the given start tag
+     * fills, e.g. `<div slot="item" |>` inside of `<List>`
+     */
+    private findFilledSlot(
+        document: SvelteDocument,
+        tag: StartTag,
+        offset: number,
+    ): { component: SvelteDocument; slot: string } | null {
+        // The attribute which is being typed is left out so the markup can be parsed
+        const text = document.getText();
+        const html = parseMarkup(
+            importSvelte(document.getFilePath()!),
+            text.slice(0, tag.attributeStart) +
+                ' '.repeat(offset - tag.attributeStart) +
+                text.slice(offset),
+        );
+        if (!html) {
+            return null;
+        }
+
+        let filled: { component: SvelteDocument; slot: string } | null = null;
+        walkNodes(html, (node, parent) => {
+            if (node.start !== tag.start || !node.attributes) {
+                return;
+            }
+
+            const attribute = node.attributes.find(
+                (attr: Node) => attr.type === 'Attribute' && attr.name === 'slot',
+            );
+            const slot = attribute && getStaticAttributeValue(attribute);
+            const component =
+                parent &&
+                parent.type === 'InlineComponent' &&
+                this.getImportedComponent(document, parent.name);
+            if (slot && component) {
+                filled = { component, slot };
+            }
+            return false;
+        });
+
+        return filled;
+    }
+
+    /**
+     * Goes from the `slot` attribute of an element passed to a component to the slot of the
+     * component it fills
+     */
+    getDefinitions(document: Document, position: Position): DefinitionLink[] {
+        if (!this.host.getConfig<boolean>('svelte.definitions.enable')) {
+            return [];
+        }
+
+        const html = parseMarkup(importSvelte(document.getFilePath()!), document.getText());
+        const slotAttribute = html && findSlotAttributeAt(html, document.offsetAt(position));
+        const name = slotAttribute && getStaticAttributeValue(slotAttribute.attribute);
+        if (!slotAttribute || !name) {
+            return [];
+        }
+
+        const component = this.getImportedComponent(
+            document as SvelteDocument,
+            slotAttribute.component.name,
+        );
+        if (!component) {
+            return [];
+        }
+
+        const { attribute } = slotAttribute;
+        const originRange = Range.create(
+            document.positionAt(attribute.start),
+            document.positionAt(attribute.end),
+        );
+        return this.getSlots(component)
+            .filter(slot => slot.name === name)
+            .map(slot => {
+                const range = Range.create(
+                    component.positionAt(slot.start),
+                    component.positionAt(slot.end),
+                );
+                return LocationLink.create(component.getURL(), range, range, originRange);
+            });
+    }
+
+    /**
+     * Shows the type of the events of imported components, e.g. on `on:save` of `<Form on:save>`
+     */
+    doHover(document: Document, position: Position): Hover | null {
+        if (!this.host.getConfig<boolean>('svelte.hover.enable')) {
+            return null;
+        }
+
+        const text = document.getText();
+        const html = parseMarkup(importSvelte(document.getFilePath()!), text);
+        if (!html) {
+            return null;
+        }
+
+        const offset = document.offsetAt(position);
+        let hover: Hover | null = null;
+        walkNodes(html, node => {
+            if (node.type !== 'InlineComponent' || offset < node.start || offset > node.end) {
+                return;
+            }
+
+            const handler = node.attributes.find(
+                (attr: Node) =>
+                    attr.type === 'EventHandler' &&
+                    offset >= attr.start &&
+                    offset <= attr.start + 'on:'.length + attr.name.length,
+            );
+            if (!handler) {
+                return;
+            }
+
+            const component = this.getImportedComponent(document as SvelteDocument, node.name);
+            const event =
+                component && this.getEvents(component).find(event => event.name === handler.name);
+            if (!event) {
+                return false;
+            }
+
+            const value = [
+                '```ts\n(event) ' + `${event.name}: ${getEventType(event)}` + '\n```',
+                event.documentation,
+            ]
+                .filter(Boolean)
+                .join('\n\n');
+            hover = {
+                range: Range.create(
+                    document.positionAt(handler.start),
+                    document.positionAt(handler.start + 'on:'.length + handler.name.length),
+                ),
+                contents: { kind: MarkupKind.Markdown, value },
+            };
+            return false;
+        });
+
+        return hover;
+    }
+
+    async formatDocument(document: Document, options: FormattingOptions): Promise<TextEdit[]> {
+        if (!this.host.getConfig<boolean>('svelte.format.enable')) {
+            return [];
         }
+
+        return computeTextEdits(document, await this.format(document, options));
     }
 
-    async formatDocument(document: Document): Promise<TextEdit[]> {
+    async formatDocumentRange(
+        document: Document,
+        range: Range,
+        options: FormattingOptions,
+    ): Promise<TextEdit[]> {
         if (!this.host.getConfig<boolean>('svelte.format.enable')) {
             return [];
         }
 
+        // prettier-plugin-svelte doesn't support rangeStart and rangeEnd, prettier returns the
+        // preprocessed source of the plugin with them. So the whole document is formatted and
+        // only the changes inside of the range are kept, the text around it stays untouched.
+        const start = document.offsetAt(range.start);
+        const end = document.offsetAt(range.end);
+        return computeTextEdits(document, await this.format(document, options)).filter(
+            edit =>
+                document.offsetAt(edit.range.start) >= start &&
+                document.offsetAt(edit.range.end) <= end,
+        );
+    }
+
+    private async format(document: Document, options: FormattingOptions): Promise<string> {
         const config = await prettier.resolveConfig(document.getFilePath()!);
         const sveltePkg = getSveltePackageInfo(document.getFilePath()!);
-        const formattedCode = prettier.format(document.getText(), {
+
+        return prettier.format(document.getText(), {
+            // Client options are only used if the prettier config doesn't specify them
+            tabWidth: options.tabSize,
+            useTabs: !options.insertSpaces,
             ...config,
             plugins: [require.resolve('prettier-plugin-svelte')],
             parser: sveltePkg.version.major >= 3 ? ('svelte' as any) : 'html',
         });
+    }
+
+    /**
+     * Folds the branches of if, each and await blocks
+     */
+    getFoldingRanges(document: Document): FoldingRange[] {
+        if (!this.host.getConfig<boolean>('svelte.foldingRanges.enable')) {
+            return [];
+        }
+
+        const svelte = importSvelte(document.getFilePath()!);
+        const html = parseMarkup(svelte, document.getText());
+        if (!html) {
+            return [];
+        }
+
+        return findBlockBranches(html, document.getText())
+            .map(branch =>
+                FoldingRange.create(
+                    document.positionAt(branch.start).line,
+                    document.positionAt(branch.end).line - 1,
+                ),
+            )
+            .filter(range => range.endLine > range.startLine);
+    }
+
+    /**
+     * Classifies block keywords, directives and store references
+     */
+    getSemanticTokens(document: Document): SemanticToken[] {
+        if (!this.host.getConfig<boolean>('svelte.semanticTokens.enable')) {
+            return [];
+        }
+
+        const text = document.getText();
+        const svelte = importSvelte(document.getFilePath()!);
+        const html = parseMarkup(svelte, text);
+        const tokens: MarkupToken[] = html ? findMarkupTokens(html, text) : [];
+
+        const { script } = document as SvelteDocument;
+        for (const reference of findStoreReferences(script.getText())) {
+            tokens.push({
+                start: script.offsetInParent(reference.start),
+                end: script.offsetInParent(reference.end),
+                type: 'variable',
+            });
+        }
 
-        return [
-            TextEdit.replace(
-                Range.create(document.positionAt(0), document.positionAt(document.getTextLength())),
-                formattedCode,
-            ),
-        ];
+        return tokens.map(token => ({
+            range: Range.create(document.positionAt(token.start), document.positionAt(token.end)),
+            type: token.type,
+            modifiers: token.modifiers,
+        }));
     }
+
+    getWorkspaceSymbols(query: string): SymbolInformation[] {
+        if (!this.host.getConfig<boolean>('svelte.workspaceSymbols.enable')) {
+            return [];
+        }
+
+        if (!this.workspaceIndexed) {
+            this.workspaceIndexed = true;
+            for (const workspaceUri of this.host.getWorkspaceUris()) {
+                const workspacePath = urlToPath(workspaceUri);
+                for (const file of workspacePath ? findSvelteFiles(workspacePath) : []) {
+                    const uri = pathToUrl(file);
+                    if (!this.workspaceSymbols.has(uri)) {
+                        this.workspaceSymbols.set(uri, null);
+                    }
+                }
+            }
+        }
+
+        const symbols = Array.from(this.workspaceSymbols.keys()).map(uri => {
+            let fileSymbols = this.workspaceSymbols.get(uri);
+            if (!fileSymbols) {
+                fileSymbols = this.indexSymbols(uri);
+                this.workspaceSymbols.set(uri, fileSymbols);
+            }
+            return fileSymbols;
+        });
+
+        return flatten(symbols).filter(symbol => matchesSymbolQuery(symbol.name, query));
+    }
+
+    private indexSymbols(uri: string): SymbolInformation[] {
+        const document = this.loadComponent(uri);
+        return document ? getComponentSymbols(document) : [];
+    }
+
+    /**
+     * Returns the events a component dispatches, followed by the events of its markup which it
+     * forwards, e.g. `<button on:click>`
+     */
+    private getEvents(component: SvelteDocument): ComponentEvent[] {
+        const events = getComponentEvents(component.script.getText());
+        const html = parseMarkup(importSvelte(component.getFilePath()!), component.getText());
+        if (html) {
+            walkNodes(html, node => {
+                for (const attr of node.attributes || []) {
+                    if (
+                        attr.type === 'EventHandler' &&
+                        !attr.expression &&
+                        !events.some(event => event.name === attr.name)
+                    ) {
+                        events.push({ name: attr.name });
+                    }
+                }
+            });
+        }
+
+        return events;
+    }
+
+    private getSlots(component: SvelteDocument): SlotDeclaration[] {
+        const html = parseMarkup(importSvelte(component.getFilePath()!), component.getText());
+        return html ? findSlots(html) : [];
+    }
+
+    /**
+     * Returns the component which is imported under the given name by the document
+     */
+    private getImportedComponent(document: SvelteDocument, name: string): SvelteDocument | null {
+        const component = getComponentImports(getScriptsText(document)).find(
+            imp => imp.name === name,
+        );
+        const componentPath =
+            component && resolveComponentImport(document.getFilePath()!, component.source);
+
+        return componentPath ? this.loadComponent(pathToUrl(componentPath)) : null;
+    }
+
+    /**
+     * Returns the open document of a component or reads it from disk
+     */
+    private loadComponent(uri: string): SvelteDocument | null {
+        const document = this.host.getDocument(uri) as SvelteDocument | undefined;
+        if (document) {
+            return document;
+        }
+
+        try {
+            return new SvelteDocument(uri, readFileSync(urlToPath(uri)!, 'utf-8'));
+        } catch (err) {
+            return null;
+        }
+    }
+}
+
+function getPropDocumentation(prop: ComponentProp): MarkupContent {
+    const documentation = [
+        prop.documentation,
+        prop.defaultValue !== undefined ? `Default: \`${prop.defaultValue}\`` : 'Required',
+    ]
+        .filter(Boolean)
+        .join('\n\n');
+
+    return { kind: MarkupKind.Markdown, value: documentation };
+}
+
+function getEventType(event: ComponentEvent): string {
+    return event.detailType ? `CustomEvent<${event.detailType}>` : 'Event';
+}
+
+/**
+ * Returns the text of the module script followed by the instance script of a component
+ */
+function getScriptsText(document: SvelteDocument): string {
+    return `${document.moduleScript.getText()}\n${document.script.getText()}`;
 }
 
 interface Preprocessor extends PreprocessorGroup {
@@ -145,9 +728,12 @@ function makePreprocessor(document: SvelteDocument, preprocessors: PreprocessorG
         preprocessor.script = (async (args: any) => {
             const res = await preprocessors.script!(args);
             if (res && res.map) {
+                const isModule = args.attributes.context === 'module';
                 preprocessor.fragments.push({
-                    source: document.script,
-                    transpiled: preprocessor.transpiledDocument.script,
+                    source: isModule ? document.moduleScript : document.script,
+                    transpiled: isModule
+                        ? preprocessor.transpiledDocument.moduleScript
+                        : preprocessor.transpiledDocument.script,
                     code: res.code,
                     map: res.map,
                 });
@@ -25,6 +25,27 @@ import {
     TextDocumentEdit,
     VersionedTextDocumentIdentifier,
     CompletionList,
+    RenameProvider,
+    WorkspaceEdit,
+    Location,
+    mapRangeToParent,
+    ReferencesProvider,
+    ReferenceContext,
+    SignatureHelpProvider,
+    SignatureHelp,
+    SignatureInformation,
+    ParameterInformation,
+    FoldingRangeProvider,
+    FoldingRange,
+    FoldingRangeKind,
+    SemanticTokensProvider,
+    SemanticToken,
+    WorkspaceSymbolsProvider,
+    CompletionResolveProvider,
+    CompletionItemData,
+    MarkupKind,
+    CompletionItemKind,
+    FileEvent,
 } from '../api';
 import {
     convertRange,
@@ -33,10 +54,20 @@ import {
     scriptElementKindToCompletionItemKind,
     getCommitCharactersForScriptElement,
     mapSeverity,
+    classificationTypeToTokenType,
+    getIdentifierToken,
+    isSvelte,
 } from './typescript/utils';
-import { getLanguageServiceForDocument, CreateDocument } from './typescript/service';
-import { pathToUrl } from '../utils';
+import {
+    getLanguageServiceForDocument,
+    getLanguageServiceForDirectory,
+    CreateDocument,
+} from './typescript/service';
+import { pathToUrl, urlToPath, flatten } from '../utils';
 import { TextDocument } from '../lib/documents/TextDocument';
+import { VirtualScriptFragment } from '../lib/documents/VirtualScriptFragment';
+import { findProjectRoot, findSvelteFiles, getComponentName } from './svelte/components';
+import { dirname, relative } from 'path';
 
 export class TypeScriptPlugin
     implements
@@ -46,9 +77,16 @@ export class TypeScriptPlugin
         DocumentSymbolsProvider,
         CompletionsProvider,
         DefinitionsProvider,
-        CodeActionsProvider {
+        CodeActionsProvider,
+        RenameProvider,
+        ReferencesProvider,
+        SignatureHelpProvider,
+        FoldingRangeProvider,
+        SemanticTokensProvider,
+        WorkspaceSymbolsProvider,
+        CompletionResolveProvider {
     public static matchFragment(fragment: Fragment) {
-        return fragment.details.attributes.tag == 'script';
+        return fragment instanceof VirtualScriptFragment;
     }
 
     public pluginId = 'typescript';
@@ -59,13 +97,25 @@ export class TypeScriptPlugin
         completions: { enable: true },
         definitions: { enable: true },
         documentSymbols: { enable: true },
+        rename: { enable: true },
+        references: { enable: true },
+        signatureHelp: { enable: true },
+        foldingRanges: { enable: true },
+        semanticTokens: { enable: true },
+        workspaceSymbols: { enable: true },
     };
 
     private host!: Host;
     private createDocument!: CreateDocument;
+    private svelteFiles = new Map<string, string[]>();
 
     onRegister(host: Host) {
         this.host = host;
+        host.on('watchedFilesChange', (changes: FileEvent[]) => {
+            if (changes.some(change => isSvelte(change.uri))) {
+                this.svelteFiles.clear();
+            }
+        });
         this.createDocument = (fileName, content) => {
             const uri = pathToUrl(fileName);
             const document = host.openDocument({
@@ -75,7 +125,7 @@ export class TypeScriptPlugin
                 version: 0,
             });
             host.lockDocument(uri);
-            return document;
+            return document.findFragment(TypeScriptPlugin.matchFragment) || document;
         };
     }
 
@@ -97,13 +147,19 @@ export class TypeScriptPlugin
             diagnostics.push(...lang.getSemanticDiagnostics(document.getFilePath()!));
         }
 
-        return diagnostics.map(diagnostic => ({
-            range: convertRange(document, diagnostic),
-            severity: mapSeverity(diagnostic.category),
-            source: isTypescript ? 'ts' : 'js',
-            message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
-            code: diagnostic.code,
-        }));
+        return diagnostics
+            .filter(
+                diagnostic =>
+                    !isGenerated(document, diagnostic.start || 0) &&
+                    !isReactiveLabel(document, diagnostic),
+            )
+            .map(diagnostic => ({
+                range: convertRange(document, diagnostic),
+                severity: mapSeverity(diagnostic.category),
+                source: isTypescript ? 'ts' : 'js',
+                message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+                code: diagnostic.code,
+            }));
     }
 
     doHover(document: Document, position: Position): Hover | null {
@@ -153,6 +209,10 @@ export class TypeScriptPlugin
         ) {
             const start = tree.spans[0];
             const end = tree.spans[tree.spans.length - 1];
+            if (start && isInMarkup(document, start.start)) {
+                return;
+            }
+
             if (start && end) {
                 cb(
                     SymbolInformation.create(
@@ -175,6 +235,114 @@ export class TypeScriptPlugin
         }
     }
 
+    getWorkspaceSymbols(query: string): SymbolInformation[] {
+        if (!this.host.getConfig<boolean>('typescript.workspaceSymbols.enable')) {
+            return [];
+        }
+
+        const symbols: SymbolInformation[] = [];
+        const convertLocation = this.createLocationConverter();
+        for (const workspaceUri of this.host.getWorkspaceUris()) {
+            const workspacePath = urlToPath(workspaceUri);
+            if (!workspacePath) {
+                continue;
+            }
+
+            const lang = getLanguageServiceForDirectory(workspacePath, this.createDocument);
+            for (const item of lang.getNavigateToItems(query, undefined, undefined, true)) {
+                // Symbols of svelte files are indexed by the svelte plugin
+                if (isSvelte(item.fileName) || item.fileName.includes('/node_modules/')) {
+                    continue;
+                }
+
+                symbols.push({
+                    name: item.name,
+                    kind: symbolKindFromString(item.kind),
+                    location: convertLocation(item.fileName, item.textSpan),
+                    containerName: item.containerName || undefined,
+                });
+            }
+        }
+
+        return symbols;
+    }
+
+    getFoldingRanges(document: Document): FoldingRange[] {
+        if (!this.host.getConfig<boolean>('typescript.foldingRanges.enable')) {
+            return [];
+        }
+
+        const lang = getLanguageServiceForDocument(document, this.createDocument);
+        const text = document.getText();
+
+        return lang
+            .getOutliningSpans(document.getFilePath()!)
+            .filter(span => !isInMarkup(document, span.textSpan.start))
+            .map(span => {
+                const range = convertRange(document, span.textSpan);
+                const end = span.textSpan.start + span.textSpan.length;
+
+                // Keep closing brackets visible when folded
+                const endLine =
+                    range.end.character > 0 && ['}', ']', ')', '`'].includes(text.charAt(end - 1))
+                        ? range.end.line - 1
+                        : range.end.line;
+
+                return FoldingRange.create(
+                    range.start.line,
+                    endLine,
+                    undefined,
+                    undefined,
+                    outliningSpanKindToFoldingRangeKind(span.kind),
+                );
+            })
+            .filter(range => range.endLine > range.startLine);
+    }
+
+    getSemanticTokens(document: Document): SemanticToken[] {
+        if (!this.host.getConfig<boolean>('typescript.semanticTokens.enable')) {
+            return [];
+        }
+
+        const lang = getLanguageServiceForDocument(document, this.createDocument);
+        const filePath = document.getFilePath()!;
+        const { spans } = lang.getEncodedSemanticClassifications(filePath, {
+            start: 0,
+            length: document.getTextLength(),
+        });
+
+        const tokens: SemanticToken[] = [];
+        for (let i = 0; i < spans.length; i += 3) {
+            const type = classificationTypeToTokenType(spans[i + 2]);
+            if (type && !isGenerated(document, spans[i])) {
+                tokens.push({
+                    range: convertRange(document, { start: spans[i], length: spans[i + 1] }),
+                    type,
+                });
+            }
+        }
+
+        const program = lang.getProgram()!;
+        const sourceFile = program.getSourceFile(filePath);
+        const checker = program.getTypeChecker();
+        const visit = (node: ts.Node) => {
+            const start = node.getStart(sourceFile);
+            const token = ts.isIdentifier(node) && getIdentifierToken(checker, node);
+            if (token && !isGenerated(document, start)) {
+                tokens.push({
+                    range: convertRange(document, { start, length: node.getEnd() - start }),
+                    ...token,
+                });
+            }
+            ts.forEachChild(node, visit);
+        };
+        if (sourceFile) {
+            visit(sourceFile);
+        }
+
+        return tokens;
+    }
+
     getCompletions(
         document: Document,
         position: Position,
@@ -185,30 +353,130 @@ export class TypeScriptPlugin
         }
 
         const lang = getLanguageServiceForDocument(document, this.createDocument);
-        const completions = lang.getCompletionsAtPosition(
-            document.getFilePath()!,
-            document.offsetAt(position),
-            {
-                includeCompletionsForModuleExports: true,
-                triggerCharacter: triggerCharacter as any,
-            },
-        );
+        const offset = document.offsetAt(position);
+        const completions = lang.getCompletionsAtPosition(document.getFilePath()!, offset, {
+            includeCompletionsForModuleExports: true,
+            triggerCharacter: triggerCharacter as any,
+        });
 
         if (!completions) {
             return null;
         }
 
-        return CompletionList.create(
-            completions!.entries.map(comp => {
+        const items = completions!.entries
+            .filter(comp => !comp.name.startsWith('__sveltets_'))
+            .map(comp => {
                 return <CompletionItem>{
                     label: comp.name,
                     kind: scriptElementKindToCompletionItemKind(comp.kind),
                     sortText: comp.sortText,
                     commitCharacters: getCommitCharactersForScriptElement(comp.kind),
                     preselect: comp.isRecommended,
+                    data: <CompletionEntryData>{
+                        pluginId: this.pluginId,
+                        uri: document.getURL(),
+                        offset,
+                        name: comp.name,
+                        source: comp.source,
+                    },
                 };
-            }),
+            });
+
+        if (!completions.isMemberCompletion) {
+            items.push(...this.getComponentImportCompletions(document, offset, completions));
+        }
+
+        return CompletionList.create(items);
+    }
+
+    resolveCompletion(document: Document, completionItem: CompletionItem): CompletionItem | null {
+        const data: CompletionEntryData | undefined = completionItem.data;
+        if (!data || data.pluginId !== this.pluginId) {
+            return null;
+        }
+
+        if (data.source && isSvelte(data.source)) {
+            return {
+                ...completionItem,
+                detail: `import ${data.name} from '${getImportSpecifier(document, data.source)}'`,
+                additionalTextEdits: [getComponentImportEdit(document, data.name, data.source)],
+            };
+        }
+
+        const lang = getLanguageServiceForDocument(document, this.createDocument);
+        const details = lang.getCompletionEntryDetails(
+            document.getFilePath()!,
+            data.offset,
+            data.name,
+            { newLineCharacter: getNewLine(document) },
+            data.source,
+            {},
+        );
+        if (!details) {
+            return completionItem;
+        }
+
+        const documentation = getCompletionDocumentation(details);
+        const additionalTextEdits = flatten(
+            (details.codeActions || []).map(action =>
+                flatten(
+                    action.changes
+                        .filter(change => change.fileName === document.getFilePath())
+                        .map(change => change.textChanges),
+                ),
+            ),
+        ).map(change =>
+            change.span.length === 0
+                ? createInsertEdit(document, change.span.start, change.newText)
+                : TextEdit.replace(convertRange(document, change.span), change.newText),
+        );
+
+        return {
+            ...completionItem,
+            detail: ts.displayPartsToString(details.displayParts),
+            documentation: documentation
+                ? { kind: MarkupKind.Markdown, value: documentation }
+                : undefined,
+            additionalTextEdits: additionalTextEdits.length > 0 ? additionalTextEdits : undefined,
+        };
+    }
+
+    getSignatureHelp(document: Document, position: Position): SignatureHelp | null {
+        if (!this.host.getConfig<boolean>('typescript.signatureHelp.enable')) {
+            return null;
+        }
+
+        const lang = getLanguageServiceForDocument(document, this.createDocument);
+        const info = lang.getSignatureHelpItems(
+            document.getFilePath()!,
+            document.offsetAt(position),
+            undefined,
         );
+        if (!info) {
+            return null;
+        }
+
+        return {
+            activeSignature: info.selectedItemIndex,
+            activeParameter: info.argumentIndex,
+            signatures: info.items.map(item => {
+                const separator = ts.displayPartsToString(item.separatorDisplayParts);
+                const parameters = item.parameters.map(param =>
+                    ParameterInformation.create(
+                        ts.displayPartsToString(param.displayParts),
+                        ts.displayPartsToString(param.documentation),
+                    ),
+                );
+
+                return SignatureInformation.create(
+                    ts.displayPartsToString(item.prefixDisplayParts) +
+                        parameters.map(param => param.label).join(separator) +
+                        ts.displayPartsToString(item.suffixDisplayParts),
+                    ts.displayPartsToString(item.documentation),
+                    ...parameters,
+                );
+            }),
+        };
     }
 
     getDefinitions(document: Document, position: Position): DefinitionLink[] {
@@ -227,27 +495,24 @@ export class TypeScriptPlugin
             return [];
         }
 
-        const docs = new Map<string, Document>([[document.getFilePath()!, document]]);
+        const convertLocation = this.createLocationConverter(document);
 
+        // Declarations generated for the component, e.g. of store values, can't be shown
         return defs.definitions
+            .filter(
+                def =>
+                    def.fileName !== document.getFilePath() ||
+                    !isGenerated(document, def.textSpan.start),
+            )
             .map(def => {
-                let defDoc = docs.get(def.fileName);
-                if (!defDoc) {
-                    defDoc = new TextDocument(
-                        pathToUrl(def.fileName),
-                        ts.sys.readFile(def.fileName) || '',
-                    );
-                    docs.set(def.fileName, defDoc);
-                }
-
+                const location = convertLocation(def.fileName, def.textSpan);
                 return LocationLink.create(
-                    pathToUrl(def.fileName),
-                    convertRange(defDoc, def.textSpan),
-                    convertRange(defDoc, def.textSpan),
+                    location.uri,
+                    location.range,
+                    location.range,
                     convertRange(document, defs.textSpan),
                 );
-            })
-            .filter(res => !!res) as DefinitionLink[];
+            });
     }
 
     getCodeActions(
@@ -273,32 +538,23 @@ export class TypeScriptPlugin
             {},
         );
 
-        const docs = new Map<string, Document>([[document.getFilePath()!, document]]);
+        const convertLocation = this.createLocationConverter(document);
         return codeFixes.map(fix => {
             return CodeAction.create(
                 fix.description,
                 {
                     documentChanges: fix.changes.map(change => {
-                        let doc = docs.get(change.fileName);
-                        if (!doc) {
-                            doc = new TextDocument(
-                                pathToUrl(change.fileName),
-                                ts.sys.readFile(change.fileName) || '',
-                            );
-                            docs.set(change.fileName, doc);
-                        }
+                        const edits = change.textChanges.map(edit => {
+                            const location = convertLocation(change.fileName, edit.span);
+                            return TextEdit.replace(location.range, edit.newText);
+                        });
 
                         return TextDocumentEdit.create(
                             VersionedTextDocumentIdentifier.create(
-                                pathToUrl(change.fileName),
+                                convertLocation(change.fileName, { start: 0, length: 0 }).uri,
                                 null,
                             ),
-                            change.textChanges.map(edit => {
-                                return TextEdit.replace(
-                                    convertRange(doc!, edit.span),
-                                    edit.newText,
-                                );
-                            }),
+                            edits,
                         );
                     }),
                 },
@@ -306,4 +562,318 @@ export class TypeScriptPlugin
             );
         });
     }
+
+    rename(document: Document, position: Position, newName: string): WorkspaceEdit | null {
+        if (!this.host.getConfig<boolean>('typescript.rename.enable')) {
+            return null;
+        }
+
+        const lang = getLanguageServiceForDocument(document, this.createDocument);
+        const offset = document.offsetAt(position);
+        const info = lang.getRenameInfo(document.getFilePath()!, offset);
+        if (!info.canRename) {
+            return null;
+        }
+
+        const locations = lang.findRenameLocations(document.getFilePath()!, offset, false, false);
+        if (!locations) {
+            return null;
+        }
+
+        const program = lang.getProgram()!;
+        const convertLocation = this.createLocationConverter(document);
+        const changes: Record<string, TextEdit[]> = {};
+        for (const loc of locations) {
+            const fragment = this.getFragment(document, loc.fileName);
+            if (isGenerated(fragment, loc.textSpan.start)) {
+                continue;
+            }
+
+            const edit = getRenameEdit(
+                fragment,
+                program.getSourceFile(loc.fileName),
+                loc.textSpan,
+                info,
+                newName,
+            );
+            const location = convertLocation(loc.fileName, edit.span);
+            changes[location.uri] = [
+                ...(changes[location.uri] || []),
+                TextEdit.replace(location.range, edit.text),
+            ];
+        }
+
+        return { changes };
+    }
+
+    findReferences(document: Document, position: Position, context: ReferenceContext): Location[] {
+        if (!this.host.getConfig<boolean>('typescript.references.enable')) {
+            return [];
+        }
+
+        const lang = getLanguageServiceForDocument(document, this.createDocument);
+        const filePath = document.getFilePath()!;
+        const offset = document.offsetAt(position);
+        // Components are imported through the class of their default export, whose references
+        // include the usages in all components which import it
+        const definitions = lang.getDefinitionAtPosition(filePath, offset);
+        const definition = definitions && definitions[0];
+        const references =
+            definition &&
+            definition.kind === ts.ScriptElementKind.classElement &&
+            isSvelte(definition.fileName)
+                ? lang.getReferencesAtPosition(definition.fileName, definition.textSpan.start)
+                : lang.getReferencesAtPosition(filePath, offset);
+        if (!references) {
+            return [];
+        }
+
+        const convertLocation = this.createLocationConverter(document);
+        return references
+            .filter(ref => context.includeDeclaration || !ref.isDefinition)
+            .filter(
+                ref => !isGenerated(this.getFragment(document, ref.fileName), ref.textSpan.start),
+            )
+            .map(ref => convertLocation(ref.fileName, ref.textSpan));
+    }
+
+    /**
+     * Suggests the svelte components of the project which are not imported yet. They are
+     * imported using their default export, which the language service doesn't know about.
+     */
+    private getComponentImportCompletions(
+        document: Document,
+        offset: number,
+        completions: ts.CompletionInfo,
+    ): CompletionItem[] {
+        const filePath = document.getFilePath()!;
+        const projectRoot = findProjectRoot(filePath);
+        let files = this.svelteFiles.get(projectRoot);
+        if (!files) {
+            files = findSvelteFiles(projectRoot);
+            this.svelteFiles.set(projectRoot, files);
+        }
+
+        const names = new Set(completions.entries.map(entry => entry.name));
+        return files
+            .filter(file => file !== filePath && !names.has(getComponentName(file)))
+            .map(file => {
+                const name = getComponentName(file);
+                return <CompletionItem>{
+                    label: name,
+                    kind: CompletionItemKind.Class,
+                    sortText: '3',
+                    data: <CompletionEntryData>{
+                        pluginId: this.pluginId,
+                        uri: document.getURL(),
+                        offset,
+                        name,
+                        source: file,
+                    },
+                };
+            });
+    }
+
+    /**
+     * Get the document whose text the language service uses for the file, which is the virtual
+     * script for components
+     */
+    private getFragment(document: Document, fileName: string): Document | null {
+        if (fileName === document.getFilePath()) {
+            return document;
+        }
+
+        const openDocument = this.host.getDocument(pathToUrl(fileName));
+        return (openDocument && openDocument.findFragment(TypeScriptPlugin.matchFragment)) || null;
+    }
+
+    /**
+     * Creates a function which converts a text span of any file in the language service into a
+     * location. Spans in the given document stay relative to it, spans in other components are
+     * mapped into the component's parent document.
+     */
+    private createLocationConverter(document?: Document) {
+        const docs = new Map<string, Document>();
+
+        return (fileName: string, span: ts.TextSpan): Location => {
+            if (document && fileName === document.getFilePath()) {
+                return Location.create(document.getURL(), convertRange(document, span));
+            }
+
+            const uri = pathToUrl(fileName);
+            const openDocument = this.host.getDocument(uri);
+            const fragment =
+                openDocument && openDocument.findFragment(TypeScriptPlugin.matchFragment);
+            if (fragment) {
+                return Location.create(
+                    uri,
+                    mapRangeToParent(fragment, convertRange(fragment, span)),
+                );
+            }
+
+            let doc = docs.get(fileName);
+            if (!doc) {
+                doc = new TextDocument(uri, ts.sys.readFile(fileName) || '');
+                docs.set(fileName, doc);
+            }
+
+            return Location.create(uri, convertRange(doc, span));
+        };
+    }
+}
+
+interface CompletionEntryData extends CompletionItemData {
+    name: string;
+    /**
+     * The module exporting the entry for auto imports
+     */
+    source?: string;
+}
+
+/**
+ * Returns true if the offset is inside of the code generated around the markup expressions
+ * of a component
+ */
+function isGenerated(document: Document | null, offset: number): boolean {
+    return document instanceof VirtualScriptFragment && document.isGenerated(offset);
+}
+
+/**
+ * Returns true if the diagnostic reports the label of a reactive declaration, e.g. `$:` of
+ * `$: doubled = count * 2`, as unused
+ */
+function isReactiveLabel(document: Document, diagnostic: ts.Diagnostic): boolean {
+    // 7028: Unused label.
+    return diagnostic.code === 7028 && document.getText().startsWith('$', diagnostic.start);
+}
+
+function isInMarkup(document: Document, offset: number): boolean {
+    return document instanceof VirtualScriptFragment && !document.isInScript(offset);
+}
+
+/**
+ * Returns the span and the text which rename a location. Shorthands keep the name they stand
+ * for, e.g. `{name}` of svelte becomes `name={newName}` and `{ name }` becomes
+ * `{ name: newName }`, or `{ newName: name }` if the property is renamed.
+ */
+function getRenameEdit(
+    fragment: Document | null,
+    sourceFile: ts.SourceFile | undefined,
+    span: ts.TextSpan,
+    info: ts.RenameInfoSuccess,
+    newName: string,
+): { span: ts.TextSpan; text: string } {
+    const shorthand =
+        fragment instanceof VirtualScriptFragment && fragment.getShorthandAt(span.start);
+    if (shorthand) {
+        return {
+            span: { start: shorthand.generatedStart, length: shorthand.length },
+            text: `${shorthand.name}={${newName}}`,
+        };
+    }
+
+    const node = sourceFile && findNodeAt(sourceFile, span.start);
+    if (node && ts.isIdentifier(node) && ts.isShorthandPropertyAssignment(node.parent)) {
+        return {
+            span,
+            text:
+                info.kind === ts.ScriptElementKind.memberVariableElement
+                    ? `${newName}: ${node.text}`
+                    : `${node.text}: ${newName}`,
+        };
+    }
+
+    return { span, text: newName };
+}
+
+function findNodeAt(node: ts.Node, offset: number): ts.Node {
+    const child = ts.forEachChild(node, child =>
+        child.pos <= offset && offset < child.end ? child : undefined,
+    );
+    return child ? findNodeAt(child, offset) : node;
+}
+
+function getNewLine(document: Document): string {
+    return document.getText().includes('\r\n') ? '\r\n' : '\n';
+}
+
+function getImportSpecifier(document: Document, modulePath: string): string {
+    const specifier = relative(dirname(document.getFilePath()!), modulePath).replace(/\\/g, '/');
+    return specifier.startsWith('.') ? specifier : `./${specifier}`;
+}
+
+/**
+ * Creates the edit adding a default import of the component after the last import
+ */
+function getComponentImportEdit(document: Document, name: string, componentPath: string) {
+    const text = document.getText();
+    const source = ts.createSourceFile('script.ts', text, ts.ScriptTarget.Latest, true);
+    const imports = source.statements.filter(ts.isImportDeclaration);
+    const lastImport = imports[imports.length - 1];
+    const quote = lastImport && lastImport.moduleSpecifier.getText(source)[0] === '"' ? '"' : "'";
+    const specifier = getImportSpecifier(document, componentPath);
+
+    let offset = 0;
+    if (lastImport) {
+        const lineEnd = text.indexOf('\n', lastImport.getEnd());
+        offset = lineEnd === -1 ? text.length : lineEnd + 1;
+    }
+
+    return createInsertEdit(
+        document,
+        offset,
+        `import ${name} from ${quote}${specifier}${quote};${getNewLine(document)}`,
+    );
+}
+
+/**
+ * Creates an edit inserting lines at the given offset. The language service inserts imports
+ * without indentation and possibly on the line of the opening script tag, so the text is moved
+ * below that line and indented like the code following it. Components without a script get a
+ * new one for the lines.
+ */
+function createInsertEdit(document: Document, offset: number, newText: string): TextEdit {
+    if (document instanceof VirtualScriptFragment && !document.hasScript()) {
+        const newLine = getNewLine(document);
+        const indented = newText.replace(/^(?=[^\r\n])/gm, '    ');
+        return TextEdit.insert(
+            document.positionAt(0),
+            `${newLine}<script>${newLine}${indented}</script>${newLine}`,
+        );
+    }
+
+    const text = document.getText();
+    if (offset === 0) {
+        const firstLine = /^[ \t]*\r?\n/.exec(text);
+        offset = firstLine ? firstLine[0].length : 0;
+    }
+
+    if (offset === 0 || text[offset - 1] === '\n') {
+        const indent = /^[ \t]*/.exec(text.slice(offset))![0];
+        newText = newText.replace(/^(?=[^\r\n])/gm, indent);
+    }
+
+    return TextEdit.insert(document.positionAt(offset), newText);
+}
+
+function getCompletionDocumentation(details: ts.CompletionEntryDetails): string {
+    const documentation = ts.displayPartsToString(details.documentation);
+    const tags = (details.tags || []).map(tag =>
+        tag.text ? `*@${tag.name}* ${tag.text}` : `*@${tag.name}*`,
+    );
+
+    return [documentation, ...tags].filter(Boolean).join('\n\n');
+}
+
+function outliningSpanKindToFoldingRangeKind(kind: ts.OutliningSpanKind): string | undefined {
+    switch (kind) {
+        case ts.OutliningSpanKind.Comment:
+            return FoldingRangeKind.Comment;
+        case ts.OutliningSpanKind.Region:
+            return FoldingRangeKind.Region;
+        case ts.OutliningSpanKind.Imports:
+            return FoldingRangeKind.Imports;
+        default:
+            return undefined;
+    }
 }
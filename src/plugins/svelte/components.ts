@@ -0,0 +1,431 @@
+import ts from 'typescript';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
+
+export interface ComponentImport {
+    name: string;
+    source: string;
+}
+
+/**
+ * Returns the default imports of svelte components in a script
+ */
+export function getComponentImports(script: string): ComponentImport[] {
+    const source = ts.createSourceFile('script.ts', script, ts.ScriptTarget.Latest);
+    const imports: ComponentImport[] = [];
+
+    for (const statement of source.statements) {
+        if (
+            ts.isImportDeclaration(statement) &&
+            statement.importClause &&
+            statement.importClause.name &&
+            ts.isStringLiteral(statement.moduleSpecifier) &&
+            statement.moduleSpecifier.text.endsWith('.svelte')
+        ) {
+            imports.push({
+                name: statement.importClause.name.text,
+                source: statement.moduleSpecifier.text,
+            });
+        }
+    }
+
+    return imports;
+}
+
+export interface ComponentProp {
+    name: string;
+    /**
+     * The declared type of the prop, or the type of its default value if that is a literal
+     */
+    type?: string;
+    /**
+     * The default value as written in the script. Props without one are required.
+     */
+    defaultValue?: string;
+    documentation?: string;
+}
+
+/**
+ * Returns the props of a component, which are the variables exported with `export let`
+ * from its instance script
+ */
+export function getComponentProps(script: string): ComponentProp[] {
+    const source = ts.createSourceFile('script.ts', script, ts.ScriptTarget.Latest, true);
+    const props: ComponentProp[] = [];
+
+    for (const statement of source.statements) {
+        if (
+            !ts.isVariableStatement(statement) ||
+            !(statement.declarationList.flags & ts.NodeFlags.Let) ||
+            !statement.modifiers ||
+            !statement.modifiers.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword)
+        ) {
+            continue;
+        }
+
+        for (const declaration of statement.declarationList.declarations) {
+            if (!ts.isIdentifier(declaration.name)) {
+                continue;
+            }
+
+            const typeNode = declaration.type || ts.getJSDocType(declaration);
+            props.push({
+                name: declaration.name.text,
+                type: typeNode
+                    ? typeNode.getText(source)
+                    : declaration.initializer && getLiteralType(declaration.initializer),
+                defaultValue: declaration.initializer && declaration.initializer.getText(source),
+                documentation: getDocumentation(statement, script),
+            });
+        }
+    }
+
+    return props;
+}
+
+export interface ComponentEvent {
+    name: string;
+    /**
+     * The type of the detail of the event, if it is known
+     */
+    detailType?: string;
+    documentation?: string;
+}
+
+/**
+ * Returns the events a component dispatches using `createEventDispatcher`. The events are
+ * taken from the type argument of the dispatcher, e.g.
+ * `createEventDispatcher<{ save: { id: number } }>()`, and from calls of the dispatcher.
+ */
+export function getComponentEvents(script: string): ComponentEvent[] {
+    const source = ts.createSourceFile('script.ts', script, ts.ScriptTarget.Latest, true);
+    const factories: string[] = [];
+    const dispatchers: string[] = [];
+    const events = new Map<string, ComponentEvent>();
+    const calls: ts.CallExpression[] = [];
+
+    for (const statement of source.statements) {
+        if (
+            ts.isImportDeclaration(statement) &&
+            ts.isStringLiteral(statement.moduleSpecifier) &&
+            statement.moduleSpecifier.text === 'svelte' &&
+            statement.importClause &&
+            statement.importClause.namedBindings &&
+            ts.isNamedImports(statement.importClause.namedBindings)
+        ) {
+            for (const element of statement.importClause.namedBindings.elements) {
+                if ((element.propertyName || element.name).text === 'createEventDispatcher') {
+                    factories.push(element.name.text);
+                }
+            }
+        }
+    }
+
+    const visit = (node: ts.Node) => {
+        if (
+            ts.isVariableDeclaration(node) &&
+            ts.isIdentifier(node.name) &&
+            node.initializer &&
+            ts.isCallExpression(node.initializer) &&
+            ts.isIdentifier(node.initializer.expression) &&
+            factories.includes(node.initializer.expression.text)
+        ) {
+            dispatchers.push(node.name.text);
+            const typeArgument =
+                node.initializer.typeArguments && node.initializer.typeArguments[0];
+            for (const member of getTypeMembers(typeArgument, source)) {
+                if (ts.isPropertySignature(member) && member.name) {
+                    const name = ts.isStringLiteral(member.name)
+                        ? member.name.text
+                        : member.name.getText(source);
+                    events.set(name, {
+                        name,
+                        detailType: member.type && member.type.getText(source),
+                        documentation: getDocumentation(member, script),
+                    });
+                }
+            }
+        } else if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+            calls.push(node);
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    for (const call of calls) {
+        const [name, detail] = call.arguments;
+        if (
+            dispatchers.includes((call.expression as ts.Identifier).text) &&
+            name &&
+            ts.isStringLiteralLike(name) &&
+            !events.has(name.text)
+        ) {
+            events.set(name.text, {
+                name: name.text,
+                detailType: detail ? getLiteralType(detail) : 'null',
+            });
+        }
+    }
+
+    return Array.from(events.values());
+}
+
+/**
+ * Returns the members of a type literal, following references to interfaces and type aliases
+ * declared at the top level of the script
+ */
+function getTypeMembers(
+    type: ts.TypeNode | undefined,
+    source: ts.SourceFile,
+): ts.NodeArray<ts.TypeElement> | ts.TypeElement[] {
+    if (type && ts.isTypeLiteralNode(type)) {
+        return type.members;
+    }
+
+    if (!type || !ts.isTypeReferenceNode(type) || !ts.isIdentifier(type.typeName)) {
+        return [];
+    }
+
+    const name = type.typeName.text;
+    for (const statement of source.statements) {
+        if (ts.isInterfaceDeclaration(statement) && statement.name.text === name) {
+            return statement.members;
+        }
+        if (ts.isTypeAliasDeclaration(statement) && statement.name.text === name) {
+            return getTypeMembers(statement.type, source);
+        }
+    }
+
+    return [];
+}
+
+function getLiteralType(node: ts.Expression): string | undefined {
+    switch (node.kind) {
+        case ts.SyntaxKind.StringLiteral:
+        case ts.SyntaxKind.NoSubstitutionTemplateLiteral:
+        case ts.SyntaxKind.TemplateExpression:
+            return 'string';
+        case ts.SyntaxKind.NumericLiteral:
+            return 'number';
+        case ts.SyntaxKind.TrueKeyword:
+        case ts.SyntaxKind.FalseKeyword:
+            return 'boolean';
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Returns the text of the doc comment in front of a node without its tags
+ */
+function getDocumentation(node: ts.Node, script: string): string | undefined {
+    const comments = ts.getLeadingCommentRanges(script, node.pos) || [];
+    const comment = comments
+        .map(range => script.slice(range.pos, range.end))
+        .filter(text => text.startsWith('/**'))
+        .pop();
+    if (!comment) {
+        return undefined;
+    }
+
+    const text = comment
+        .replace(/^\/\*\*|\*\/$/g, '')
+        .split('\n')
+        .map(line => line.replace(/^\s*\* ?/, '').trim())
+        .filter(line => !line.startsWith('@'))
+        .join('\n')
+        .trim();
+    return text || undefined;
+}
+
+/**
+ * Returns the name a component is imported as by default, which is its file name
+ * converted to PascalCase, e.g. `my-button.svelte` becomes `MyButton`
+ */
+export function getComponentName(filePath: string): string {
+    const name = basename(filePath, extname(filePath))
+        .split(/[^\w$]+/)
+        .filter(Boolean)
+        .map(part => part[0].toUpperCase() + part.slice(1))
+        .join('');
+
+    return /^\d/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Resolves the path of an imported component, using the compiler options of the closest
+ * tsconfig.json or jsconfig.json for bare module specifiers
+ */
+export function resolveComponentImport(fromPath: string, source: string): string | null {
+    return resolveSvelteModule(source, fromPath, getCompilerOptions(dirname(fromPath)));
+}
+
+/**
+ * Resolves the svelte specific imports which typescript can't resolve on its own: svelte
+ * files relative to the importing file, through the `paths` and `baseUrl` compiler options
+ * or inside of packages, and packages with a `svelte` field in their package.json, which
+ * points to the uncompiled sources of component libraries.
+ * Returns null for other imports.
+ */
+export function resolveSvelteModule(
+    source: string,
+    fromPath: string,
+    options: ts.CompilerOptions,
+): string | null {
+    const isSvelteFile = source.endsWith('.svelte');
+    if (source.startsWith('.') || source.startsWith('/')) {
+        return isSvelteFile ? resolve(dirname(fromPath), source).replace(/\\/g, '/') : null;
+    }
+
+    if (isSvelteFile) {
+        const candidates = getPathMappings(source, options);
+        for (let dir = dirname(fromPath); ; dir = dirname(dir)) {
+            candidates.push(join(dir, 'node_modules', source));
+            if (dirname(dir) === dir) {
+                break;
+            }
+        }
+
+        const path = candidates.find(candidate => existsSync(candidate));
+        return path ? path.replace(/\\/g, '/') : null;
+    }
+
+    // Only the package itself can point to its svelte sources, not a path inside of it
+    if (!/^(@[^/]+\/)?[^/@]+$/.test(source)) {
+        return null;
+    }
+
+    for (let dir = dirname(fromPath); ; dir = dirname(dir)) {
+        const packagePath = join(dir, 'node_modules', source, 'package.json');
+        if (existsSync(packagePath)) {
+            return getSvelteEntry(packagePath);
+        }
+        if (dirname(dir) === dir) {
+            return null;
+        }
+    }
+}
+
+/**
+ * Returns the paths a module specifier maps to through the `paths` and `baseUrl` options
+ */
+function getPathMappings(source: string, options: ts.CompilerOptions): string[] {
+    const { baseUrl, paths = {} } = options;
+    if (!baseUrl) {
+        return [];
+    }
+
+    const mappings: string[] = [];
+    for (const pattern of Object.keys(paths)) {
+        const [prefix, suffix = null] = pattern.split('*');
+        const matches =
+            suffix === null
+                ? source === prefix
+                : source.length >= prefix.length + suffix.length &&
+                  source.startsWith(prefix) &&
+                  source.endsWith(suffix);
+        if (!matches) {
+            continue;
+        }
+
+        const wildcard = source.slice(prefix.length, source.length - (suffix || '').length);
+        for (const substitution of paths[pattern]) {
+            mappings.push(resolve(baseUrl, substitution.replace('*', wildcard)));
+        }
+    }
+    mappings.push(resolve(baseUrl, source));
+
+    return mappings;
+}
+
+function getSvelteEntry(packagePath: string): string | null {
+    try {
+        const { svelte } = JSON.parse(readFileSync(packagePath, 'utf-8'));
+        const path = typeof svelte === 'string' && resolve(dirname(packagePath), svelte);
+        return path && existsSync(path) ? path.replace(/\\/g, '/') : null;
+    } catch (err) {
+        return null;
+    }
+}
+
+/**
+ * Compiler options of the tsconfig.json or jsconfig.json files by path
+ */
+const compilerOptions = new Map<string, ts.CompilerOptions>();
+
+function getCompilerOptions(dir: string): ts.CompilerOptions {
+    const configPath =
+        ts.findConfigFile(dir, ts.sys.fileExists, 'tsconfig.json') ||
+        ts.findConfigFile(dir, ts.sys.fileExists, 'jsconfig.json');
+    if (!configPath) {
+        return {};
+    }
+
+    let options = compilerOptions.get(configPath);
+    if (!options) {
+        const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+        // Only the options are needed, so the files of the project aren't searched
+        options = ts.parseJsonConfigFileContent(
+            config || {},
+            { ...ts.sys, readDirectory: () => [] },
+            dirname(configPath),
+        ).options;
+        compilerOptions.set(configPath, options);
+    }
+
+    return options;
+}
+
+/**
+ * Finds the closest directory containing a package.json, falling back to the
+ * directory of the given file.
+ */
+export function findProjectRoot(filePath: string): string {
+    let dir = dirname(filePath);
+    while (!existsSync(join(dir, 'package.json'))) {
+        const parent = dirname(dir);
+        if (parent === dir) {
+            return dirname(filePath);
+        }
+        dir = parent;
+    }
+
+    return dir;
+}
+
+/**
+ * Recursively collects all svelte files in a directory, skipping node_modules
+ * and hidden directories.
+ */
+export function findSvelteFiles(dir: string): string[] {
+    const files: string[] = [];
+
+    let entries: string[];
+    try {
+        entries = readdirSync(dir);
+    } catch (err) {
+        return files;
+    }
+
+    for (const entry of entries) {
+        if (entry === 'node_modules' || entry.startsWith('.')) {
+            continue;
+        }
+
+        const path = join(dir, entry).replace(/\\/g, '/');
+        let isDirectory: boolean;
+        try {
+            isDirectory = statSync(path).isDirectory();
+        } catch (err) {
+            continue;
+        }
+
+        if (isDirectory) {
+            files.push(...findSvelteFiles(path));
+        } else if (entry.endsWith('.svelte')) {
+            files.push(path);
+        }
+    }
+
+    return files;
+}
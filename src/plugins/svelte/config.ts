@@ -0,0 +1,43 @@
+import cosmic from 'cosmiconfig';
+import { CompileOptions } from 'svelte/types/compiler/interfaces';
+import { PreprocessorGroup } from 'svelte/types/compiler/preprocess';
+import { DefaultLanguages } from '../../lib/documents/SvelteDocument';
+
+export interface SvelteConfig extends CompileOptions {
+    /**
+     * Preprocessors like svelte-preprocess expose the default languages they were created with
+     */
+    preprocess?: PreprocessorGroup & { defaultLanguages?: DefaultLanguages };
+}
+
+const DEFAULT_OPTIONS: CompileOptions = {
+    dev: true,
+};
+
+/**
+ * Loads the svelte config of the project, i.e. the closest svelte.config.js or .svelterc
+ */
+export function loadConfig(path: string): SvelteConfig {
+    try {
+        const { config } = cosmic('svelte', {
+            packageProp: false,
+            sync: true,
+        }).load(path);
+        return { ...DEFAULT_OPTIONS, ...config };
+    } catch (err) {
+        return { ...DEFAULT_OPTIONS, preprocess: {} };
+    }
+}
+
+/**
+ * The default languages of the preprocessor. `javascript` and `css` are what svelte
+ * understands without preprocessing, so they are not treated as an override.
+ */
+export function getDefaultLanguages(config: SvelteConfig): DefaultLanguages {
+    const languages = (config.preprocess && config.preprocess.defaultLanguages) || {};
+    return {
+        markup: languages.markup === 'html' ? undefined : languages.markup,
+        script: languages.script === 'javascript' ? undefined : languages.script,
+        style: languages.style === 'css' ? undefined : languages.style,
+    };
+}
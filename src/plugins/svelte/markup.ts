@@ -0,0 +1,376 @@
+import ts from 'typescript';
+import { Node } from 'svelte/types/compiler/interfaces';
+import * as svelte from 'svelte/compiler';
+
+/**
+ * Parses the markup of a component. The contents of script and style tags are blanked out
+ * beforehand so the parse doesn't depend on the language they are written in.
+ */
+export function parseMarkup(compiler: typeof svelte, text: string): Node | null {
+    const source = text.replace(
+        /(<(script|style)(?:[\S\s]*?)>)([\S\s]*?)(<\/\2>)/gi,
+        (_, open, _tag, content, close) => open + content.replace(/[^\n]/g, ' ') + close,
+    );
+
+    try {
+        return compiler.parse(source).html;
+    } catch (err) {
+        return null;
+    }
+}
+
+export interface BlockTags {
+    block: Node;
+    /**
+     * Offsets of the opening tag followed by the branch tags, e.g. `{:else}`,
+     * and the closing tag of the block
+     */
+    tags: number[];
+}
+
+/**
+ * Finds the tags of all if, each and await blocks in the markup.
+ */
+export function findBlockTags(html: Node, text: string): BlockTags[] {
+    const blocks: Node[] = [];
+    walkNodes(html, node => {
+        if (
+            (node.type === 'IfBlock' && !node.elseif) ||
+            node.type === 'EachBlock' ||
+            node.type === 'AwaitBlock'
+        ) {
+            blocks.push(node);
+        }
+    });
+
+    return blocks.map(block => {
+        const nested = blocks.filter(
+            other => other !== block && other.start > block.start && other.end <= block.end,
+        );
+        const tags = [block.start];
+
+        const exp = /{:(else|then|catch)\b/g;
+        exp.lastIndex = block.start;
+        let match: RegExpExecArray | null;
+        while ((match = exp.exec(text)) && match.index < block.end) {
+            const index = match.index;
+            if (!nested.some(other => index > other.start && index < other.end)) {
+                tags.push(index);
+            }
+        }
+        tags.push(text.lastIndexOf('{/', block.end));
+
+        return { block, tags };
+    });
+}
+
+/**
+ * Returns the offsets of each branch of the if, each and await blocks in the markup.
+ * A branch starts at its opening tag (e.g. `{#if}` or `{:else}`) and ends where the next
+ * branch or the closing tag of the block starts.
+ */
+export function findBlockBranches(html: Node, text: string): { start: number; end: number }[] {
+    const branches: { start: number; end: number }[] = [];
+    for (const { tags } of findBlockTags(html, text)) {
+        for (let i = 0; i < tags.length - 1; i++) {
+            branches.push({ start: tags[i], end: tags[i + 1] });
+        }
+    }
+
+    return branches;
+}
+
+export interface SlotDeclaration {
+    /**
+     * Name of the slot, `default` for the unnamed slot
+     */
+    name: string;
+    start: number;
+    end: number;
+    /**
+     * Names of the props the slot passes to its content, e.g. `item` of `<slot item={item}>`
+     */
+    props: string[];
+}
+
+/**
+ * Finds the slots a component declares in its markup
+ */
+export function findSlots(html: Node): SlotDeclaration[] {
+    const slots: SlotDeclaration[] = [];
+    walkNodes(html, node => {
+        if (node.type !== 'Slot') {
+            return;
+        }
+
+        slots.push({
+            name: getSlotName(node),
+            start: node.start,
+            end: node.end,
+            props: node.attributes
+                .filter((attr: Node) => attr.type === 'Attribute' && attr.name !== 'name')
+                .map((attr: Node) => attr.name),
+        });
+    });
+
+    return slots;
+}
+
+/**
+ * Returns the name of a `<slot>` element, `default` for the unnamed slot
+ */
+export function getSlotName(slot: Node): string {
+    const nameAttribute = slot.attributes.find(
+        (attr: Node) => attr.type === 'Attribute' && attr.name === 'name',
+    );
+    return (nameAttribute && getStaticAttributeValue(nameAttribute)) || 'default';
+}
+
+/**
+ * Returns the `slot` attribute surrounding the given offset if its element is passed to a
+ * component, e.g. `slot="header"` of `<Card><h1 slot="header" /></Card>`
+ */
+export function findSlotAttributeAt(
+    html: Node,
+    offset: number,
+): { attribute: Node; component: Node } | null {
+    let result: { attribute: Node; component: Node } | null = null;
+    walkNodes(html, (node, parent) => {
+        if (offset < node.start || offset > node.end) {
+            return false;
+        }
+
+        const attribute =
+            parent &&
+            parent.type === 'InlineComponent' &&
+            node.attributes &&
+            node.attributes.find(
+                (attr: Node) =>
+                    attr.type === 'Attribute' &&
+                    attr.name === 'slot' &&
+                    offset >= attr.start &&
+                    offset <= attr.end,
+            );
+        if (attribute) {
+            result = { attribute, component: parent! };
+            return false;
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Returns the value of an attribute which doesn't contain any expressions
+ */
+export function getStaticAttributeValue(attribute: Node): string | null {
+    const { value } = attribute;
+    if (!Array.isArray(value) || value.some(part => part.type !== 'Text')) {
+        return null;
+    }
+
+    return value.map(part => part.data).join('');
+}
+
+/**
+ * Walks all nodes of a svelte AST, including the javascript expressions inside of it.
+ * Unlike estree-walker, this doesn't cache the child keys per node type as they differ
+ * between template nodes of the same type. Return false from the visitor to skip the
+ * children of a node.
+ */
+export function walkNodes(
+    node: Node,
+    visit: (node: Node, parent: Node | null, prop: string | null) => boolean | void,
+    parent: Node | null = null,
+    prop: string | null = null,
+): void {
+    if (visit(node, parent, prop) === false) {
+        return;
+    }
+
+    for (const key of Object.keys(node)) {
+        const value = node[key];
+        if (Array.isArray(value)) {
+            for (const child of value) {
+                if (child && child.type) {
+                    walkNodes(child, visit, node, key);
+                }
+            }
+        } else if (value && typeof value === 'object' && value.type) {
+            walkNodes(value, visit, node, key);
+        }
+    }
+}
+
+/**
+ * Returns the names declared at the top level of a script, e.g. variables, functions,
+ * classes and imports. Works for both javascript and typescript sources.
+ * @param includeReactive Whether to include the names assigned by reactive declarations
+ */
+export function getTopLevelNames(script: string, includeReactive = true): string[] {
+    const source = ts.createSourceFile('script.ts', script, ts.ScriptTarget.Latest);
+    const names: string[] = [];
+
+    for (const statement of source.statements) {
+        if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                collectBindingNames(declaration.name, names);
+            }
+        } else if (
+            (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+            statement.name
+        ) {
+            names.push(statement.name.text);
+        } else if (ts.isImportDeclaration(statement) && statement.importClause) {
+            const { name, namedBindings } = statement.importClause;
+            if (name) {
+                names.push(name.text);
+            }
+            if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+                names.push(namedBindings.name.text);
+            } else if (namedBindings) {
+                namedBindings.elements.forEach(element => names.push(element.name.text));
+            }
+        } else if (includeReactive) {
+            const assignment = getReactiveAssignment(statement);
+            if (assignment) {
+                names.push(assignment.left.text);
+            }
+        }
+    }
+
+    return names;
+}
+
+/**
+ * Returns the assignment of a reactive declaration, e.g. `doubled = count * 2` of
+ * `$: doubled = count * 2`
+ */
+export function getReactiveAssignment(
+    statement: ts.Statement,
+): (ts.BinaryExpression & { left: ts.Identifier }) | null {
+    if (
+        ts.isLabeledStatement(statement) &&
+        statement.label.text === '$' &&
+        ts.isExpressionStatement(statement.statement) &&
+        ts.isBinaryExpression(statement.statement.expression) &&
+        statement.statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        ts.isIdentifier(statement.statement.expression.left)
+    ) {
+        return statement.statement.expression as ts.BinaryExpression & { left: ts.Identifier };
+    }
+
+    return null;
+}
+
+export interface StartTag {
+    name: string;
+    start: number;
+    /**
+     * Names of the attributes before the offset
+     */
+    attributes: string[];
+    /**
+     * Offset of the attribute name which is being typed
+     */
+    attributeStart: number;
+}
+
+/**
+ * Returns the start tag surrounding the given offset if the offset is where the name of an
+ * attribute goes, e.g. `<Button |` or `<Button lab|`. The tag doesn't need to be complete, so
+ * this works while typing.
+ */
+export function getStartTagAt(text: string, offset: number): StartTag | null {
+    const tagExp = /<([A-Za-z][\w:.-]*)/g;
+    let match: RegExpExecArray | null;
+    let lastMatch: RegExpExecArray | null = null;
+    while ((match = tagExp.exec(text)) && match.index < offset) {
+        lastMatch = match;
+    }
+    if (!lastMatch || lastMatch.index + lastMatch[0].length >= offset) {
+        return null;
+    }
+
+    const tag: StartTag = {
+        name: lastMatch[1],
+        start: lastMatch.index,
+        attributes: [],
+        attributeStart: offset,
+    };
+    let i = lastMatch.index + lastMatch[0].length;
+    while (i < offset) {
+        const char = text[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '>' || char === '/') {
+            return null;
+        } else if (char === '{') {
+            i = skipMustache(text, i);
+        } else {
+            const name = /^[^\s=>/{"']+/.exec(text.slice(i, offset));
+            if (!name) {
+                return null;
+            }
+            i += name[0].length;
+            if (i === offset) {
+                tag.attributeStart = offset - name[0].length;
+                return tag;
+            }
+
+            tag.attributes.push(name[0]);
+            if (text[i] === '=') {
+                i = skipAttributeValue(text, i + 1);
+            }
+        }
+    }
+
+    return i === offset && /\s/.test(text[offset - 1]) ? tag : null;
+}
+
+function skipMustache(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '{') {
+            depth++;
+        } else if (text[i] === '}' && --depth === 0) {
+            return i + 1;
+        }
+    }
+
+    return text.length;
+}
+
+function skipAttributeValue(text: string, start: number): number {
+    const char = text[start];
+    if (char === '"' || char === "'") {
+        const end = text.indexOf(char, start + 1);
+        return end === -1 ? text.length : end + 1;
+    }
+    if (char === '{') {
+        return skipMustache(text, start);
+    }
+
+    const value = /^[^\s>]*/.exec(text.slice(start))!;
+    return start + value[0].length;
+}
+
+/**
+ * Returns the offset of the name of a directive, e.g. `tooltip` in `use:tooltip`
+ */
+export function getDirectiveNameStart(text: string, directive: Node): number {
+    return text.indexOf(':', directive.start) + 1;
+}
+
+function collectBindingNames(name: ts.BindingName, names: string[]) {
+    if (ts.isIdentifier(name)) {
+        names.push(name.text);
+        return;
+    }
+
+    for (const element of name.elements) {
+        if (!ts.isOmittedExpression(element)) {
+            collectBindingNames(element.name, names);
+        }
+    }
+}
@@ -0,0 +1,130 @@
+import ts from 'typescript';
+import { Node } from 'svelte/types/compiler/interfaces';
+import { findBlockTags, walkNodes, getTopLevelNames } from './markup';
+
+export interface MarkupToken {
+    start: number;
+    end: number;
+    type: string;
+    modifiers?: string[];
+}
+
+const directiveNameTypes: Record<string, string> = {
+    EventHandler: 'event',
+    Binding: 'property',
+    Class: 'property',
+    Let: 'variable',
+    Action: 'function',
+    Transition: 'function',
+    Animation: 'function',
+};
+
+/**
+ * Finds the svelte specific tokens of the markup: block keywords, directive prefixes,
+ * names and modifiers, and store references.
+ */
+export function findMarkupTokens(html: Node, text: string): MarkupToken[] {
+    const tokens: MarkupToken[] = [];
+    const keyword = (start: number, length: number) =>
+        tokens.push({ start, end: start + length, type: 'keyword' });
+    const keywordsBetween = (exp: RegExp, start: number, end: number) => {
+        exp.lastIndex = start;
+        let match: RegExpExecArray | null;
+        while ((match = exp.exec(text)) && match.index < end) {
+            keyword(match.index, match[0].length);
+        }
+    };
+
+    for (const { block, tags } of findBlockTags(html, text)) {
+        for (const tag of tags) {
+            const match = /^{([#:/](?:else if|\w+))/.exec(text.slice(tag));
+            if (match) {
+                keyword(tag + 1, match[1].length);
+            }
+        }
+
+        if (block.type === 'EachBlock') {
+            keywordsBetween(/\bas\b/g, block.expression.end, block.context.start);
+        } else if (block.type === 'AwaitBlock') {
+            const openingTagEnd = text.indexOf('}', block.expression.end);
+            keywordsBetween(/\b(then|catch)\b/g, block.expression.end, openingTagEnd);
+        }
+    }
+
+    walkNodes(html, (node, parent, prop) => {
+        switch (node.type) {
+            case 'RawMustacheTag':
+                keyword(node.start + 1, '@html'.length);
+                return;
+            case 'DebugTag':
+                keyword(node.start + 1, '@debug'.length);
+                return;
+            case 'Identifier':
+                if (
+                    /^\$[^$]/.test(node.name) &&
+                    !(parent && parent.type === 'MemberExpression' && prop === 'property')
+                ) {
+                    tokens.push({ start: node.start, end: node.end, type: 'variable' });
+                }
+                return;
+        }
+
+        const nameType = directiveNameTypes[node.type];
+        if (!nameType) {
+            return;
+        }
+
+        const match = /^([\w]+):([\w-]+)((?:\|\w+)*)/.exec(text.slice(node.start, node.end));
+        if (!match) {
+            return;
+        }
+
+        const [, prefix, name, modifiers] = match;
+        keyword(node.start, prefix.length);
+
+        const nameStart = node.start + prefix.length + 1;
+        tokens.push({
+            start: nameStart,
+            end: nameStart + name.length,
+            type: nameType,
+            modifiers: node.type === 'Let' ? ['declaration'] : [],
+        });
+
+        let modifierStart = nameStart + name.length;
+        for (const modifier of modifiers.split('|').slice(1)) {
+            modifierStart += 1;
+            tokens.push({
+                start: modifierStart,
+                end: modifierStart + modifier.length,
+                type: 'modifier',
+            });
+            modifierStart += modifier.length;
+        }
+    });
+
+    return tokens;
+}
+
+/**
+ * Finds the `$store` references in a script which refer to a top level store.
+ */
+export function findStoreReferences(script: string): { start: number; end: number }[] {
+    const source = ts.createSourceFile('script.ts', script, ts.ScriptTarget.Latest, true);
+    const names = getTopLevelNames(script);
+    const references: { start: number; end: number }[] = [];
+
+    const visit = (node: ts.Node) => {
+        if (
+            ts.isIdentifier(node) &&
+            /^\$[^$]/.test(node.text) &&
+            names.includes(node.text.slice(1)) &&
+            !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node)
+        ) {
+            references.push({ start: node.getStart(source), end: node.getEnd() });
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(source);
+
+    return references;
+}
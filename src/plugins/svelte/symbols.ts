@@ -0,0 +1,140 @@
+import ts from 'typescript';
+import { basename, extname } from 'path';
+import { SymbolInformation, SymbolKind, Range, Fragment } from '../../api';
+import { mapSymbolInformationToParent } from '../../api/fragmentPositions';
+import { SvelteDocument } from '../../lib/documents/SvelteDocument';
+import { getLanguageService, extractLanguage } from '../CSSPlugin';
+
+/**
+ * Returns the symbols of a component which are searchable in the workspace: the component
+ * itself, its exported props, the functions of its scripts and the selectors of its style.
+ */
+export function getComponentSymbols(document: SvelteDocument): SymbolInformation[] {
+    const url = document.getURL();
+    const componentName = basename(url, extname(url));
+    const symbols = [
+        SymbolInformation.create(
+            componentName,
+            SymbolKind.Class,
+            Range.create(document.positionAt(0), document.positionAt(document.getTextLength())),
+            url,
+        ),
+    ];
+
+    for (const script of [document.moduleScript, document.script]) {
+        symbols.push(...getScriptSymbols(document, script, componentName));
+    }
+
+    const style = document.style;
+    const languageService = getLanguageService(extractLanguage(style));
+    const selectors = languageService
+        .findDocumentSymbols(style, languageService.parseStylesheet(style))
+        .filter(symbol => symbol.kind === SymbolKind.Class)
+        .map(symbol => ({
+            ...mapSymbolInformationToParent(style, symbol),
+            containerName: componentName,
+        }));
+    symbols.push(...selectors);
+
+    return symbols;
+}
+
+/**
+ * Returns the functions of a script, and the props if it's the instance script. Exported
+ * functions are props too, and destructured props are listed by each of their names.
+ */
+function getScriptSymbols(
+    document: SvelteDocument,
+    script: Fragment,
+    componentName: string,
+): SymbolInformation[] {
+    const url = document.getURL();
+    const symbols: SymbolInformation[] = [];
+    const source = ts.createSourceFile('script.ts', script.getText(), ts.ScriptTarget.Latest, true);
+    const isInstanceScript = script.getAttributes().context !== 'module';
+    const addSymbol = (name: ts.Identifier, kind: SymbolKind, node: ts.Node) => {
+        symbols.push(
+            SymbolInformation.create(
+                name.text,
+                kind,
+                Range.create(
+                    document.positionAt(script.offsetInParent(node.getStart(source))),
+                    document.positionAt(script.offsetInParent(node.getEnd())),
+                ),
+                url,
+                componentName,
+            ),
+        );
+    };
+
+    for (const statement of source.statements) {
+        const isExported =
+            isInstanceScript &&
+            !!statement.modifiers &&
+            statement.modifiers.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword);
+
+        if (ts.isFunctionDeclaration(statement) && statement.name) {
+            addSymbol(
+                statement.name,
+                isExported ? SymbolKind.Property : SymbolKind.Function,
+                statement,
+            );
+        } else if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (isExported) {
+                    for (const name of getBindingNames(declaration.name)) {
+                        addSymbol(
+                            name,
+                            SymbolKind.Property,
+                            ts.isIdentifier(declaration.name) ? declaration : name.parent,
+                        );
+                    }
+                } else if (
+                    ts.isIdentifier(declaration.name) &&
+                    declaration.initializer &&
+                    (ts.isArrowFunction(declaration.initializer) ||
+                        ts.isFunctionExpression(declaration.initializer))
+                ) {
+                    addSymbol(declaration.name, SymbolKind.Function, declaration);
+                }
+            }
+        }
+    }
+
+    return symbols;
+}
+
+/**
+ * Returns the names a declaration binds, including those of destructured objects and arrays
+ */
+function getBindingNames(name: ts.BindingName): ts.Identifier[] {
+    if (ts.isIdentifier(name)) {
+        return [name];
+    }
+
+    const names: ts.Identifier[] = [];
+    for (const element of name.elements) {
+        if (!ts.isOmittedExpression(element)) {
+            names.push(...getBindingNames(element.name));
+        }
+    }
+    return names;
+}
+
+/**
+ * Returns true if all characters of the query appear in the name in the same order,
+ * ignoring case. This mirrors how editors filter symbols in the workspace.
+ */
+export function matchesSymbolQuery(name: string, query: string): boolean {
+    const lowerName = name.toLowerCase();
+    let index = 0;
+    for (const char of query.toLowerCase()) {
+        index = lowerName.indexOf(char, index);
+        if (index === -1) {
+            return false;
+        }
+        index++;
+    }
+
+    return true;
+}
@@ -1,8 +1,10 @@
 import ts from 'typescript';
 import { DocumentSnapshot } from './DocumentSnapshot';
 import { isSvelte } from './utils';
-import { dirname, resolve, extname } from 'path';
+import { dirname, extname } from 'path';
 import { Document } from '../../api';
+import { svelteShimsPath, svelteShims } from './shims';
+import { resolveSvelteModule } from '../svelte/components';
 
 export interface LanguageServiceContainer {
     getService(): ts.LanguageService;
@@ -17,7 +19,17 @@ export function getLanguageServiceForDocument(
     document: Document,
     createDocument: CreateDocument,
 ): ts.LanguageService {
-    const searchDir = dirname(document.getFilePath()!);
+    return getService(dirname(document.getFilePath()!), createDocument).updateDocument(document);
+}
+
+export function getLanguageServiceForDirectory(
+    searchDir: string,
+    createDocument: CreateDocument,
+): ts.LanguageService {
+    return getService(searchDir, createDocument).getService();
+}
+
+function getService(searchDir: string, createDocument: CreateDocument): LanguageServiceContainer {
     const tsconfigPath =
         ts.findConfigFile(searchDir, ts.sys.fileExists, 'tsconfig.json') ||
         ts.findConfigFile(searchDir, ts.sys.fileExists, 'jsconfig.json') ||
@@ -31,7 +43,7 @@ export function getLanguageServiceForDocument(
         services.set(tsconfigPath, service);
     }
 
-    return service.updateDocument(document);
+    return service;
 }
 
 export function createLanguageService(
@@ -59,9 +71,11 @@ export function createLanguageService(
             compilerOptions,
             tsconfigPath,
             undefined,
+            // Deferred files are part of the project, so components which aren't open are
+            // searched for references as well
             [
                 { extension: 'html', isMixedContent: true },
-                { extension: 'svelte', isMixedContent: true },
+                { extension: 'svelte', isMixedContent: true, scriptKind: ts.ScriptKind.Deferred },
             ],
         );
         files = parsedConfig.fileNames;
@@ -70,7 +84,8 @@ export function createLanguageService(
 
     const host: ts.LanguageServiceHost = {
         getCompilationSettings: () => compilerOptions,
-        getScriptFileNames: () => Array.from(new Set([...files, ...Array.from(documents.keys())])),
+        getScriptFileNames: () =>
+            Array.from(new Set([...files, ...Array.from(documents.keys()), svelteShimsPath])),
         getScriptVersion(fileName: string) {
             const doc = getSvelteSnapshot(fileName);
             return doc ? String(doc.version) : '0';
@@ -86,27 +101,42 @@ export function createLanguageService(
         getCurrentDirectory: () => workspacePath,
         getDefaultLibFileName: ts.getDefaultLibFilePath,
 
-        resolveModuleNames(moduleNames: string[], containingFile: string): ts.ResolvedModule[] {
+        resolveModuleNames(moduleNames: string[], containingFile: string): ts.ResolvedModuleFull[] {
             return moduleNames.map(name => {
-                const resolved = ts.resolveModuleName(
+                const { resolvedModule } = ts.resolveModuleName(
                     name,
                     containingFile,
                     compilerOptions,
                     ts.sys,
                 );
+                // Packages with types keep them, even if they also point to their svelte sources
+                if (
+                    resolvedModule &&
+                    resolvedModule.extension !== ts.Extension.Js &&
+                    resolvedModule.extension !== ts.Extension.Jsx
+                ) {
+                    return resolvedModule;
+                }
 
-                if (!resolved.resolvedModule && isSvelte(name)) {
+                const sveltePath = resolveSvelteModule(name, containingFile, compilerOptions);
+                if (sveltePath) {
+                    // Svelte sources of packages are loaded like the files of the project
                     return {
-                        resolvedFileName: resolve(dirname(containingFile), name),
-                        extension: extname(name),
+                        resolvedFileName: sveltePath,
+                        extension: extname(sveltePath) as ts.Extension,
+                        isExternalLibraryImport: false,
                     };
                 }
 
-                return resolved.resolvedModule!;
+                return resolvedModule!;
             });
         },
 
         readFile(path: string, encoding?: string): string | undefined {
+            if (path === svelteShimsPath) {
+                return svelteShims;
+            }
+
             return ts.sys.readFile(path, encoding);
         },
     };
@@ -0,0 +1,103 @@
+import { resolve } from 'path';
+
+/**
+ * Path of the virtual file which is added to every language service. It declares the helpers
+ * used by the code generated for the markup of components.
+ */
+export const svelteShimsPath = resolve(__dirname, 'svelte-shims.d.ts');
+
+export const svelteShims = `
+declare function __sveltets_any(...args: any[]): any;
+type __sveltets_dom_event<K> = K extends keyof HTMLElementEventMap
+    ? HTMLElementEventMap[K]
+    : Event;
+declare function __sveltets_element<K extends keyof HTMLElementTagNameMap>(
+    tag: K,
+): HTMLElementTagNameMap[K];
+declare function __sveltets_element<K extends keyof SVGElementTagNameMap>(
+    tag: K,
+): SVGElementTagNameMap[K];
+declare function __sveltets_element(tag: string): HTMLElement;
+type __sveltets_event_map<E> = E extends Window ? WindowEventMap : HTMLElementEventMap;
+declare function __sveltets_on<E, K extends string>(
+    element: E,
+    type: K,
+    handler:
+        | ((
+              this: E,
+              event: K extends keyof __sveltets_event_map<E> ? __sveltets_event_map<E>[K] : any,
+          ) => any)
+        | null
+        | undefined,
+): void;
+
+/**
+ * Checks the component of <svelte:component> is a component, then returns the function
+ * checking the props passed to it
+ */
+declare function __sveltets_component<Props>(
+    component:
+        | (new (options: { target: Element; props?: Props }) => any)
+        | null
+        | undefined
+        | false,
+): (props: Partial<Props>) => void;
+
+/**
+ * The type of the default export of components
+ */
+declare class __sveltets_Component<Props = {}, Events = {}, Slots = {}> {
+    constructor(options: {
+        target: Element;
+        anchor?: Element;
+        props?: Props;
+        hydrate?: boolean;
+        intro?: boolean;
+    });
+    $set(props: Partial<Props>): void;
+    $on<K extends keyof Events>(type: K, callback: (event: Events[K]) => any): () => void;
+    $destroy(): void;
+    $$prop_def: Props;
+    $$events_def: Events;
+    $$slot_def: Slots;
+}
+declare function __sveltets_each<T>(items: ArrayLike<T>): T[];
+declare function __sveltets_await<T>(promise: T): T extends PromiseLike<infer U> ? U : T;
+
+/**
+ * The props a slot of a component passes to its content, inferred from the values yielded
+ * by the function of the markup
+ */
+type __sveltets_slot_props<Render, K extends string> = Render extends () => Iterable<infer Slots>
+    ? Slots extends Record<K, infer Props>
+        ? Props
+        : never
+    : any;
+declare function __sveltets_slot<C, K extends string>(
+    component: C,
+    slot: K,
+): C extends new (...args: any[]) => { $$slot_def: infer Slots }
+    ? K extends keyof Slots
+        ? Slots[K]
+        : any
+    : any;
+declare function __sveltets_on_component<C, K extends string>(
+    component: C,
+    type: K,
+    handler:
+        | ((
+              event: C extends new (...args: any[]) => { $$events_def: infer Events }
+                  ? K extends keyof Events
+                      ? Events[K]
+                      : any
+                  : any,
+          ) => any)
+        | null
+        | undefined,
+): void;
+type __sveltets_store_value<S> = S extends {
+    subscribe(run: (value: infer T) => any, ...args: any[]): any;
+}
+    ? T
+    : any;
+`;
@@ -23,6 +23,7 @@ export function getScriptKindFromAttributes(attrs: Record<string, string>): ts.S
     const type = attrs.lang || attrs.type;
 
     switch (type) {
+        case 'ts':
         case 'typescript':
         case 'text/typescript':
             return ts.ScriptKind.TS;
@@ -189,3 +190,72 @@ export function mapSeverity(category: ts.DiagnosticCategory): DiagnosticSeverity
 
     return DiagnosticSeverity.Error;
 }
+
+export function classificationTypeToTokenType(type: ts.ClassificationType): string | undefined {
+    switch (type) {
+        case ts.ClassificationType.className:
+            return 'class';
+        case ts.ClassificationType.enumName:
+            return 'enum';
+        case ts.ClassificationType.interfaceName:
+            return 'interface';
+        case ts.ClassificationType.moduleName:
+            return 'namespace';
+        case ts.ClassificationType.typeParameterName:
+            return 'typeParameter';
+        case ts.ClassificationType.typeAliasName:
+            return 'type';
+        case ts.ClassificationType.parameterName:
+            return 'parameter';
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the token of an identifier which references a variable, a function or a property.
+ * The semantic classifications of typescript only cover the names of types and parameters, so
+ * these are classified by the symbol of the identifier instead.
+ */
+export function getIdentifierToken(
+    checker: ts.TypeChecker,
+    identifier: ts.Identifier,
+): { type: string; modifiers: string[] } | undefined {
+    const symbol = checker.getSymbolAtLocation(identifier);
+    if (!symbol) {
+        return undefined;
+    }
+
+    const modifiers: string[] = [];
+    if ((symbol.declarations || []).some(decl => ts.getNameOfDeclaration(decl) === identifier)) {
+        modifiers.push('declaration');
+    }
+
+    // Imports are classified like the symbol they import
+    const target = symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol;
+    const declarations = target.declarations || [];
+    if (declarations.some(ts.isParameter)) {
+        return undefined;
+    }
+    if (
+        declarations.some(
+            decl =>
+                !!(ts.getCombinedNodeFlags(decl) & ts.NodeFlags.Const) ||
+                !!(ts.getCombinedModifierFlags(decl) & ts.ModifierFlags.Readonly),
+        )
+    ) {
+        modifiers.push('readonly');
+    }
+
+    if (target.flags & (ts.SymbolFlags.Function | ts.SymbolFlags.Method)) {
+        return { type: 'function', modifiers };
+    }
+    if (target.flags & (ts.SymbolFlags.Property | ts.SymbolFlags.Accessor)) {
+        return { type: 'property', modifiers };
+    }
+    if (target.flags & ts.SymbolFlags.Variable) {
+        return { type: 'variable', modifiers };
+    }
+
+    return undefined;
+}
@@ -0,0 +1,773 @@
+import ts from 'typescript';
+import * as svelte from 'svelte/compiler';
+import { Node } from 'svelte/types/compiler/interfaces';
+import { FragmentDetails } from '../../api';
+import {
+    parseMarkup,
+    getDirectiveNameStart,
+    getTopLevelNames,
+    getReactiveAssignment,
+    walkNodes,
+    findSlots,
+    getSlotName,
+    getStaticAttributeValue,
+} from '../svelte/markup';
+import { getComponentProps, getComponentEvents } from '../svelte/components';
+
+export interface Mapping {
+    /**
+     * Offset of the copied text in the generated code
+     */
+    generatedStart: number;
+    /**
+     * Offset of the copied text in the component
+     */
+    originalStart: number;
+    length: number;
+}
+
+/**
+ * A name written in a shorthand form, e.g. `{name}` as an attribute or `bind:name`, which needs
+ * to be expanded to `name={newName}` when the referenced variable is renamed
+ */
+export interface Shorthand {
+    /**
+     * Offset of the copied shorthand in the generated code, which includes the braces of
+     * shorthand attributes
+     */
+    generatedStart: number;
+    length: number;
+    /**
+     * The name of the attribute or directive, which stays the same
+     */
+    name: string;
+}
+
+export interface VirtualScript {
+    code: string;
+    /**
+     * The parts of the component which were copied into the code, in the order of the code
+     */
+    mappings: Mapping[];
+    shorthands: Shorthand[];
+    /**
+     * Length of the code copied from the scripts, which precedes the code of the markup
+     */
+    scriptLength: number;
+}
+
+interface Placeholder {
+    start: number;
+    end: number;
+}
+
+/**
+ * Generates the code the language service sees for a component: the module script and the
+ * instance script followed by a function containing the expressions of the markup. The
+ * scripts and the expressions are copied as written so positions can be mapped back to the
+ * component, while the code around them recreates the scopes of the markup, e.g. the bindings
+ * of each blocks. The function of the markup is a generator yielding the props of each slot,
+ * so the types of the slot props are inferred from its yielded values.
+ */
+export function generateVirtualScript(
+    text: string,
+    script: FragmentDetails,
+    moduleScript: FragmentDetails,
+): VirtualScript {
+    let code = '';
+    const mappings: Mapping[] = [];
+    const shorthands: Shorthand[] = [];
+    const add = (generated: string) => {
+        code += generated;
+    };
+    const copy = (start: number, end: number) => {
+        mappings.push({ generatedStart: code.length, originalStart: start, length: end - start });
+        code += text.slice(start, end);
+    };
+    const copyShorthand = (start: number, end: number, name: string) => {
+        shorthands.push({ generatedStart: code.length, length: end - start, name });
+        copy(start, end);
+    };
+
+    // The declarations of the module script are visible in the instance script
+    const { container } = moduleScript;
+    if (container && container.start !== container.end) {
+        copy(moduleScript.start, moduleScript.end);
+        add('\n');
+    }
+    copy(script.start, script.end);
+
+    const scriptText = text.slice(script.start, script.end);
+    const moduleScriptText = text.slice(moduleScript.start, moduleScript.end);
+    const { html, placeholders } = parseTemplate(text);
+    if (!html) {
+        add(declareComponent(scriptText, null));
+        return addDeclarations(
+            { code, mappings, shorthands, scriptLength: code.length },
+            scriptText,
+            moduleScriptText,
+        );
+    }
+
+    const scriptLength = code.length;
+
+    const copyExpression = (node: Node) => {
+        const placeholder = placeholders.find(placeholder => placeholder.start === node.start);
+        if (placeholder) {
+            copy(placeholder.start, placeholder.end);
+        } else {
+            copy(node.start, node.end);
+        }
+    };
+    const expression = (node: Node) => {
+        add('(');
+        copyExpression(node);
+        add(');\n');
+    };
+    const declare = (name: string, start: number, value = '__sveltets_any()') => {
+        add('const ');
+        if (start === -1) {
+            add(name);
+        } else {
+            copy(start, start + name.length);
+        }
+        add(` = ${value};\n`);
+    };
+    const attributeValue = (attr: Node) => {
+        if (!Array.isArray(attr.value)) {
+            add('true');
+        } else if (attr.value[0].type === 'AttributeShorthand') {
+            // `{name}` is copied as an object literal, so the braces are mapped as well
+            add('(');
+            copyShorthand(attr.start, attr.end, attr.name);
+            add(`)[${JSON.stringify(attr.name)}]`);
+        } else if (attr.value.length === 1 && attr.value[0].type !== 'Text') {
+            add('(');
+            copyExpression(attr.value[0].expression);
+            add(')');
+        } else if (getStaticAttributeValue(attr) !== null) {
+            add(JSON.stringify(getStaticAttributeValue(attr)));
+        } else {
+            add('""');
+            for (const value of attr.value) {
+                add(' + ');
+                if (value.type === 'Text') {
+                    add(JSON.stringify(value.data));
+                } else {
+                    add('(');
+                    copyExpression(value.expression);
+                    add(')');
+                }
+            }
+        }
+    };
+    const slotProps = (slot: Node) => {
+        add(`yield { ${JSON.stringify(getSlotName(slot))}: { `);
+        for (const attr of slot.attributes) {
+            if (attr.type === 'Attribute' && attr.name !== 'name') {
+                add(`${JSON.stringify(attr.name)}: `);
+                attributeValue(attr);
+                add(', ');
+            } else if (attr.type === 'Spread') {
+                add('...(');
+                copyExpression(attr.expression);
+                add('), ');
+            }
+        }
+        add('} };\n');
+    };
+    // The expression of `bind:name` and `class:name` is the name of the directive
+    const directiveExpression = (attr: Node) => {
+        const { expression } = attr;
+        if (expression.type === 'Identifier' && text.charAt(expression.start - 1) === ':') {
+            copyShorthand(expression.start, expression.end, attr.name);
+        } else {
+            copyExpression(expression);
+        }
+    };
+    const dynamicComponentProps = (component: Node) => {
+        add('__sveltets_component(');
+        copyExpression(component.expression);
+        add(')({ ');
+        for (const attr of component.attributes) {
+            if (attr.type === 'Attribute') {
+                // The names are mapped, so errors about unknown props are reported on them
+                if (
+                    /^[A-Za-z_$][\w$]*$/.test(attr.name) &&
+                    text.startsWith(attr.name, attr.start)
+                ) {
+                    copy(attr.start, attr.start + attr.name.length);
+                } else {
+                    add(JSON.stringify(attr.name));
+                }
+                add(': ');
+                attributeValue(attr);
+                add(', ');
+            } else if (attr.type === 'Spread') {
+                add('...(');
+                copyExpression(attr.expression);
+                add('), ');
+            }
+        }
+        add('});\n');
+    };
+
+    const children = (nodes: Node[] = [], parent: Node | null = null) =>
+        nodes.forEach(node => visit(node, parent));
+    const visit = (node: Node, parent: Node | null) => {
+        switch (node.type) {
+            case 'MustacheTag':
+            case 'RawMustacheTag':
+                expression(node.expression);
+                return;
+            case 'DebugTag':
+                node.identifiers.forEach(expression);
+                return;
+            case 'IfBlock':
+                add('if (');
+                copyExpression(node.expression);
+                add(') {\n');
+                children(node.children);
+                add('}\n');
+                if (node.else) {
+                    add('else {\n');
+                    children(node.else.children);
+                    add('}\n');
+                }
+                return;
+            case 'EachBlock':
+                // The items can be the targets of bindings, so they aren't constant
+                add('for (let ');
+                copy(node.context.start, node.context.end);
+                add(' of __sveltets_each(');
+                copyExpression(node.expression);
+                add(')) {\n');
+                if (node.index) {
+                    declare(
+                        node.index,
+                        indexOfName(text, node.index, node.context.end),
+                        '__sveltets_any() as number',
+                    );
+                }
+                if (node.key) {
+                    expression(node.key);
+                }
+                children(node.children);
+                add('}\n');
+                if (node.else) {
+                    add('{\n');
+                    children(node.else.children);
+                    add('}\n');
+                }
+                return;
+            case 'AwaitBlock': {
+                add('{\n');
+                children(node.pending.children);
+                add('}\n{\n');
+                if (node.value) {
+                    // The value is declared in the opening tag when the pending branch is left out
+                    const from = text.startsWith('{:then', node.then.start)
+                        ? node.then.start
+                        : node.expression.end;
+                    add('const ');
+                    const start = indexOfName(text, node.value, from);
+                    if (start === -1) {
+                        add(node.value);
+                    } else {
+                        copy(start, start + node.value.length);
+                    }
+                    add(' = __sveltets_await(');
+                    copyExpression(node.expression);
+                    add(');\n');
+                } else {
+                    expression(node.expression);
+                }
+                children(node.then.children);
+                add('}\n{\n');
+                if (node.error) {
+                    declare(node.error, indexOfName(text, node.error, node.catch.start));
+                }
+                children(node.catch.children);
+                add('}\n');
+                return;
+            }
+        }
+
+        if (!node.attributes) {
+            children(node.children);
+            return;
+        }
+
+        if (node.type === 'Slot') {
+            slotProps(node);
+            children(node.children);
+            return;
+        }
+
+        if (node.type === 'InlineComponent') {
+            if (node.expression) {
+                dynamicComponentProps(node);
+            } else if (isIdentifierPath(node.name)) {
+                // The names of the opening and closing tag reference the component
+                copy(node.start + 1, node.start + 1 + node.name.length);
+                add(';\n');
+                const source = text.slice(node.start, node.end);
+                const closingTag = source.endsWith('/>')
+                    ? -1
+                    : source.lastIndexOf(`</${node.name}`);
+                if (closingTag > 0) {
+                    const start = node.start + closingTag + 2;
+                    copy(start, start + node.name.length);
+                    add(';\n');
+                }
+            }
+        }
+
+        const lets: Node[] = [];
+        for (const attr of node.attributes) {
+            if (node.expression && (attr.type === 'Attribute' || attr.type === 'Spread')) {
+                // Already passed to the dynamic component
+                continue;
+            }
+
+            switch (attr.type) {
+                case 'Attribute':
+                    if (Array.isArray(attr.value) && attr.value[0].type === 'AttributeShorthand') {
+                        add('(');
+                        copyShorthand(attr.start, attr.end, attr.name);
+                        add(');\n');
+                    } else if (Array.isArray(attr.value)) {
+                        attr.value
+                            .filter((value: Node) => value.type !== 'Text')
+                            .forEach((value: Node) => expression(value.expression));
+                    }
+                    break;
+                case 'Action':
+                case 'Transition':
+                case 'Animation': {
+                    const nameStart = getDirectiveNameStart(text, attr);
+                    if (isIdentifierPath(attr.name) && text.startsWith(attr.name, nameStart)) {
+                        // Calls the function of the directive like svelte does, which checks
+                        // the parameters against its type. Animations get the positions of the
+                        // element before their parameters.
+                        copy(nameStart, nameStart + attr.name.length);
+                        add(`(${getElementReference(node) || '__sveltets_any()'}`);
+                        if (attr.type === 'Animation') {
+                            add(', __sveltets_any()');
+                        }
+                        if (attr.expression) {
+                            add(', ');
+                            copyExpression(attr.expression);
+                        }
+                        add(');\n');
+                    } else if (attr.expression) {
+                        expression(attr.expression);
+                    }
+                    break;
+                }
+                case 'Let':
+                    lets.push(attr);
+                    break;
+                case 'EventHandler': {
+                    const element = getElementReference(node);
+                    if (element && attr.expression) {
+                        // Checks the handler against the type of the event on the element. The
+                        // handler isn't wrapped in parentheses, which would be the start of errors.
+                        add(`__sveltets_on(${element}, ${JSON.stringify(attr.name)}, `);
+                        copyExpression(attr.expression);
+                        add(');\n');
+                    } else if (node.type === 'InlineComponent' && attr.expression) {
+                        // The event is typed from the events the component dispatches
+                        const component = getComponentReference(node);
+                        add(`__sveltets_on_component(${component}, ${JSON.stringify(attr.name)}, `);
+                        copyExpression(attr.expression);
+                        add(');\n');
+                    } else if (attr.expression) {
+                        expression(attr.expression);
+                    }
+                    break;
+                }
+                case 'Binding': {
+                    const value = getBindingValue(node, attr.name);
+                    if (value) {
+                        if (attr.expression.type === 'Identifier') {
+                            // Marks the target as read, the assignment alone doesn't
+                            add(`${attr.expression.name};\n`);
+                        }
+                        // Checks the bound value can be assigned to the target, inside of a
+                        // function so the assignment doesn't narrow the type of the target
+                        add('() => ');
+                        directiveExpression(attr);
+                        add(` = ${value};\n`);
+                    } else {
+                        add('(');
+                        directiveExpression(attr);
+                        add(');\n');
+                    }
+                    break;
+                }
+                default:
+                    if (attr.expression) {
+                        add('(');
+                        directiveExpression(attr);
+                        add(');\n');
+                    }
+            }
+        }
+
+        if (lets.length === 0) {
+            children(node.children, node);
+            return;
+        }
+
+        add('{\n');
+        const slot = getFilledSlot(node, parent);
+        for (const attr of lets) {
+            const value = slot
+                ? `__sveltets_slot(${slot.component}, ${JSON.stringify(slot.name)})` +
+                  `[${JSON.stringify(attr.name)}]`
+                : '__sveltets_any()';
+            add('const ');
+            if (attr.expression) {
+                copy(attr.expression.start, attr.expression.end);
+            } else {
+                const start = attr.start + 'let:'.length;
+                copyShorthand(start, start + attr.name.length, attr.name);
+            }
+            add(` = ${value};\n`);
+        }
+        children(node.children, node);
+        add('}\n');
+    };
+
+    add('\nfunction* __sveltets_render() {\n');
+    children(html.children);
+    add('}\n');
+    add(declareComponent(scriptText, html));
+
+    return addDeclarations(
+        { code, mappings, shorthands, scriptLength },
+        scriptText,
+        moduleScriptText,
+    );
+}
+
+/**
+ * Declares the component as the default export of the module, typed from its props, events
+ * and slots, so modules importing the component see its class
+ */
+function declareComponent(script: string, html: Node | null): string {
+    const props = getComponentProps(script).map(
+        prop => `${prop.name}${prop.defaultValue === undefined ? '' : '?'}: typeof ${prop.name};`,
+    );
+    const events = new Map<string, string>();
+    for (const event of getComponentEvents(script)) {
+        events.set(event.name, `CustomEvent<${event.detailType || 'any'}>`);
+    }
+
+    const slots = new Map<string, string>();
+    if (html) {
+        walkNodes(html, node => {
+            for (const attr of node.attributes || []) {
+                // Forwarded events, e.g. `<button on:click>`
+                if (attr.type === 'EventHandler' && !attr.expression && !events.has(attr.name)) {
+                    const name = JSON.stringify(attr.name);
+                    events.set(
+                        attr.name,
+                        node.type === 'Element' ? `__sveltets_dom_event<${name}>` : 'any',
+                    );
+                }
+            }
+        });
+        for (const slot of findSlots(html)) {
+            const name = JSON.stringify(slot.name);
+            slots.set(slot.name, `__sveltets_slot_props<typeof __sveltets_render, ${name}>`);
+        }
+    }
+
+    const toType = (types: Map<string, string>) =>
+        Array.from(types)
+            .map(([name, type]) => `${JSON.stringify(name)}: ${type};`)
+            .join(' ');
+    return (
+        '\nexport default class __sveltets_default extends __sveltets_Component<' +
+        `{ ${props.join(' ')} }, { ${toType(events)} }, { ${toType(slots)} }> {}\n`
+    );
+}
+
+/**
+ * Inserts the declarations of the names svelte declares implicitly right after the script,
+ * including `$$props`, `$$restProps` and `$$slots`, which are typed from the component.
+ * The references to stores in the markup are only known once the code is generated, so the
+ * declarations are inserted afterwards. They are ambient since the names may be used in the
+ * script before the declarations.
+ */
+function addDeclarations(
+    generated: VirtualScript,
+    script: string,
+    moduleScript: string,
+): VirtualScript {
+    const names = [...getTopLevelNames(moduleScript), ...getTopLevelNames(script)];
+    const declarations =
+        declareReactiveValues(script, getTopLevelNames(moduleScript, false)) +
+        declareStores(generated.code, names) +
+        '\ndeclare let $$props: __sveltets_default["$$prop_def"] & { [key: string]: any };' +
+        '\ndeclare let $$restProps: { [key: string]: any };' +
+        '\ndeclare let $$slots: { [K in keyof __sveltets_default["$$slot_def"]]?: boolean };';
+
+    const offset = generated.scriptLength;
+    const move = <T extends { generatedStart: number }>(part: T): T =>
+        part.generatedStart <= offset
+            ? part
+            : { ...part, generatedStart: part.generatedStart + declarations.length };
+    return {
+        code: generated.code.slice(0, offset) + declarations + generated.code.slice(offset),
+        mappings: generated.mappings.map(move),
+        shorthands: generated.shorthands.map(move),
+        scriptLength: offset,
+    };
+}
+
+/**
+ * Declares the variables of reactive declarations which aren't declared in the script, e.g.
+ * `doubled` of `$: doubled = count * 2`, with the type of the assigned value
+ * @param moduleNames The names declared by the module script
+ */
+function declareReactiveValues(script: string, moduleNames: string[]): string {
+    const source = ts.createSourceFile('script.ts', script, ts.ScriptTarget.Latest, true);
+    const declared = [...moduleNames, ...getTopLevelNames(script, false)];
+    let declarations = '';
+
+    for (const statement of source.statements) {
+        const assignment = getReactiveAssignment(statement);
+        if (!assignment || declared.includes(assignment.left.text)) {
+            continue;
+        }
+
+        const name = assignment.left.text;
+        declared.push(name);
+        const value = `__sveltets_reactive_${name}`;
+        declarations +=
+            `\nfunction ${value}() { return (${assignment.right.getText(source)}); }` +
+            `\ndeclare let ${name}: ReturnType<typeof ${value}>;`;
+    }
+
+    return declarations;
+}
+
+/**
+ * Declares the values of the stores which are referenced with a `$` prefix, e.g. `$count`
+ * @param names The names declared at the top level of the scripts
+ */
+function declareStores(code: string, names: string[]): string {
+    const stores = new Set<string>();
+    const visit = (node: ts.Node) => {
+        if (ts.isIdentifier(node) && /^\$[^$]/.test(node.text)) {
+            const name = node.text.slice(1);
+            if (names.includes(name)) {
+                stores.add(name);
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(ts.createSourceFile('component.ts', code, ts.ScriptTarget.Latest));
+
+    return Array.from(stores)
+        .map(name => `\ndeclare let $${name}: __sveltets_store_value<typeof ${name}>;`)
+        .join('');
+}
+
+/**
+ * Parses the markup of the component. Incomplete expressions, e.g. `{user.` while typing,
+ * make the whole markup unparsable, so those are replaced by a placeholder for the parse and
+ * copied as written into the generated code.
+ */
+function parseTemplate(text: string): { html: Node | null; placeholders: Placeholder[] } {
+    const html = parseMarkup(svelte, text);
+    if (html) {
+        return { html, placeholders: [] };
+    }
+
+    const source = text.replace(/<(script|style)[\S\s]*?<\/\1>|<!--[\S\s]*?-->/gi, match =>
+        match.replace(/[^\n]/g, ' '),
+    );
+    const placeholders: Placeholder[] = [];
+    let patched = text;
+    let open = source.indexOf('{');
+    while (open !== -1) {
+        const end = findExpressionEnd(source, open + 1);
+        const isClosed = source[end] === '}';
+        const content = source.slice(open + 1, end);
+        const prefix = /^(#if|:else if|@html)\s+/.exec(content);
+        const start = open + 1 + (prefix ? prefix[0].length : 0);
+        open = source.indexOf('{', end);
+
+        if ((!prefix && /^[#:/@]/.test(content)) || isValidExpression(source.slice(start, end))) {
+            continue;
+        }
+
+        // Unclosed tags are closed by the placeholder, which needs room for the brace
+        const length = end - start;
+        if (length < (isClosed ? 1 : 2)) {
+            continue;
+        }
+
+        const placeholder = '_' + ' '.repeat(isClosed ? length - 1 : length - 2);
+        patched =
+            patched.slice(0, start) + placeholder + (isClosed ? '' : '}') + patched.slice(end);
+        placeholders.push({ start, end });
+    }
+
+    return { html: parseMarkup(svelte, patched), placeholders };
+}
+
+/**
+ * Returns the offset of the closing brace of a mustache tag. Unclosed tags end at the line
+ * break before the next tag.
+ */
+function findExpressionEnd(source: string, start: number): number {
+    const nextTag = /\s*[<{]/y;
+    let depth = 0;
+    for (let i = start; i < source.length; i++) {
+        const char = source[i];
+        if (char === '"' || char === "'" || char === '`') {
+            const close = source.indexOf(char, i + 1);
+            i = close === -1 ? i : close;
+        } else if (char === '{') {
+            depth++;
+        } else if (char === '}') {
+            if (depth === 0) {
+                return i;
+            }
+            depth--;
+        } else if (char === '\n') {
+            nextTag.lastIndex = i + 1;
+            if (nextTag.test(source)) {
+                return i;
+            }
+        }
+    }
+
+    return source.length;
+}
+
+function isValidExpression(expression: string): boolean {
+    const { diagnostics } = ts.transpileModule(`(${expression.replace(/^\s*\.\.\./, '')})`, {
+        fileName: 'expression.ts',
+        reportDiagnostics: true,
+    });
+    return !diagnostics || diagnostics.length === 0;
+}
+
+/**
+ * Returns the component and the name of the slot an element with `let:` directives fills,
+ * e.g. the default slot of `<List let:item>` or the `row` slot of `<tr slot="row" let:item>`
+ * inside of a component. The component is the code referencing its class.
+ */
+function getFilledSlot(
+    node: Node,
+    parent: Node | null,
+): { component: string; name: string } | null {
+    if (node.type === 'InlineComponent') {
+        return { component: getComponentReference(node), name: 'default' };
+    }
+
+    const slotAttribute = node.attributes.find(
+        (attr: Node) => attr.type === 'Attribute' && attr.name === 'slot',
+    );
+    const name = slotAttribute && getStaticAttributeValue(slotAttribute);
+    if (!name || !parent || parent.type !== 'InlineComponent') {
+        return null;
+    }
+
+    return { component: getComponentReference(parent), name };
+}
+
+/**
+ * Returns the code referencing the DOM object of an element, e.g. `window` for
+ * `<svelte:window>`. Returns null for components.
+ */
+function getElementReference(node: Node): string | null {
+    switch (node.type) {
+        case 'Element':
+            return `__sveltets_element(${JSON.stringify(node.name)})`;
+        case 'Window':
+            return 'window';
+        case 'Body':
+            return 'document.body';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Returns the code of the value svelte assigns to the target of a binding, which is the
+ * property of the element unless svelte converts it. Returns null if the type of the value
+ * isn't known, e.g. for `bind:group` or bindings of components.
+ */
+function getBindingValue(node: Node, name: string): string | null {
+    if (node.type === 'Window') {
+        return name === 'online' ? 'navigator.onLine' : `window.${name}`;
+    }
+
+    const element = getElementReference(node);
+    if (node.type !== 'Element' || !element) {
+        return null;
+    }
+
+    switch (name) {
+        case 'this':
+            return element;
+        case 'group':
+        // The time ranges of media elements are converted to arrays
+        case 'buffered':
+        case 'played':
+        case 'seekable':
+            return null;
+        case 'value': {
+            // The value of a select is the value of the selected option, which can be anything
+            if (node.name === 'select') {
+                return null;
+            }
+
+            const typeAttribute = node.attributes.find(
+                (attr: Node) => attr.type === 'Attribute' && attr.name === 'type',
+            );
+            const type = typeAttribute && getStaticAttributeValue(typeAttribute);
+            return node.name === 'input' && (type === 'number' || type === 'range')
+                ? '__sveltets_any() as number'
+                : `${element}.value`;
+        }
+        case 'textContent':
+            return '__sveltets_any() as string';
+        case 'files':
+            return '__sveltets_any() as FileList';
+        default:
+            return `${element}.${name}`;
+    }
+}
+
+function getComponentReference(component: Node): string {
+    if (component.name === 'svelte:self') {
+        return '__sveltets_default';
+    }
+
+    return component.expression || !isIdentifierPath(component.name)
+        ? '__sveltets_any()'
+        : component.name;
+}
+
+function isIdentifierPath(name: string): boolean {
+    return /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/.test(name);
+}
+
+/**
+ * Finds the offset of a name declared by a block, e.g. the index of an each block, which the
+ * svelte parser doesn't provide
+ */
+function indexOfName(text: string, name: string, from: number): number {
+    const exp = new RegExp(`(^|[^\\w$])${name.replace(/\$/g, '\\$')}(?![\\w$])`, 'g');
+    exp.lastIndex = from;
+    const match = exp.exec(text);
+    return match ? match.index + match[1].length : -1;
+}
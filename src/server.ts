@@ -5,6 +5,8 @@ import {
     TextDocumentSyncKind,
     RequestType,
     TextDocumentPositionParams,
+    TextDocumentIdentifier,
+    ServerCapabilities,
 } from 'vscode-languageserver';
 import { DocumentManager } from './lib/documents/DocumentManager';
 import { SvelteDocument } from './lib/documents/SvelteDocument';
@@ -13,7 +15,15 @@ import { HTMLPlugin } from './plugins/HTMLPlugin';
 import { CSSPlugin } from './plugins/CSSPlugin';
 import { wrapFragmentPlugin } from './api/wrapFragmentPlugin';
 import { TypeScriptPlugin } from './plugins/TypeScriptPlugin';
+import { getDefaultLanguages, loadConfig } from './plugins/svelte/config';
+import { urlToPath } from './utils';
 import _ from 'lodash';
+import {
+    SemanticTokens,
+    SemanticTokensDelta,
+    SemanticTokensLegend,
+    semanticTokensLegend,
+} from './api/interfaces';
 
 namespace TagCloseRequest {
     export const type: RequestType<
@@ -24,6 +34,32 @@ namespace TagCloseRequest {
     > = new RequestType('html/tag');
 }
 
+// Semantic tokens are not part of the protocol version we depend on yet
+interface SemanticTokensCapabilities extends ServerCapabilities {
+    semanticTokensProvider: {
+        legend: SemanticTokensLegend;
+        full: { delta: boolean };
+    };
+}
+
+namespace SemanticTokensRequest {
+    export const type: RequestType<
+        { textDocument: TextDocumentIdentifier },
+        SemanticTokens | null,
+        any,
+        any
+    > = new RequestType('textDocument/semanticTokens/full');
+}
+
+namespace SemanticTokensDeltaRequest {
+    export const type: RequestType<
+        { textDocument: TextDocumentIdentifier; previousResultId: string },
+        SemanticTokens | SemanticTokensDelta | null,
+        any,
+        any
+    > = new RequestType('textDocument/semanticTokens/full/delta');
+}
+
 export function startServer() {
     const connection = process.argv.includes('--stdio') ? createConnection(process.stdin, process.stdout) : createConnection(
         new IPCMessageReader(process),
@@ -31,8 +67,24 @@ export function startServer() {
     );
 
     const manager = new DocumentManager(
-        textDocument => new SvelteDocument(textDocument.uri, textDocument.text),
+        textDocument =>
+            new SvelteDocument(
+                textDocument.uri,
+                textDocument.text,
+                loadDefaultLanguages(textDocument.uri),
+            ),
     );
+    manager.on('watchedFilesChange', changes => {
+        if (!changes.some(change => /(svelte\.config\.js|\.svelterc)$/.test(change.uri))) {
+            return;
+        }
+
+        manager.documents.forEach(document => {
+            if (document instanceof SvelteDocument) {
+                document.setDefaultLanguages(loadDefaultLanguages(document.getURL()));
+            }
+        });
+    });
 
     manager.register(new SveltePlugin());
     manager.register(new HTMLPlugin());
@@ -40,46 +92,67 @@ export function startServer() {
     manager.register(wrapFragmentPlugin(new TypeScriptPlugin(), TypeScriptPlugin.matchFragment));
 
     connection.onInitialize(evt => {
-        return {
-            capabilities: {
-                textDocumentSync: {
-                    openClose: true,
-                    change: TextDocumentSyncKind.Incremental,
-                },
-                hoverProvider: manager.supports('doHover'),
-                completionProvider: {
-                    triggerCharacters: [
-                        '.',
-                        '"',
-                        "'",
-                        '`',
-                        '/',
-                        '@',
-                        '<',
-
-                        // For Emmet
-                        '>',
-                        '*',
-                        '#',
-                        '$',
-                        ' ',
-                        '+',
-                        '^',
-                        '(',
-                        ')',
-                        '[',
-                        ']',
-                        '@',
-                        '-',
-                    ],
-                },
-                documentFormattingProvider: true,
-                colorProvider: true,
-                documentSymbolProvider: true,
-                definitionProvider: true,
-                codeActionProvider: true,
+        manager.setWorkspaceUris(
+            evt.workspaceFolders
+                ? evt.workspaceFolders.map(folder => folder.uri)
+                : evt.rootUri
+                ? [evt.rootUri]
+                : [],
+        );
+
+        const capabilities: SemanticTokensCapabilities = {
+            textDocumentSync: {
+                openClose: true,
+                change: TextDocumentSyncKind.Incremental,
+            },
+            hoverProvider: manager.supports('doHover'),
+            completionProvider: {
+                resolveProvider: true,
+                triggerCharacters: [
+                    '.',
+                    '"',
+                    "'",
+                    '`',
+                    '/',
+                    '@',
+                    '<',
+
+                    // For Emmet
+                    '>',
+                    '*',
+                    '#',
+                    '$',
+                    ' ',
+                    '+',
+                    '^',
+                    '(',
+                    ')',
+                    '[',
+                    ']',
+                    '@',
+                    '-',
+                ],
+            },
+            signatureHelpProvider: {
+                triggerCharacters: ['(', ','],
+            },
+            documentFormattingProvider: true,
+            documentRangeFormattingProvider: true,
+            colorProvider: true,
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            definitionProvider: true,
+            codeActionProvider: true,
+            renameProvider: true,
+            referencesProvider: true,
+            foldingRangeProvider: true,
+            semanticTokensProvider: {
+                legend: semanticTokensLegend,
+                full: { delta: true },
             },
         };
+
+        return { capabilities };
     });
 
     connection.onDidChangeConfiguration(({ settings }) => {
@@ -91,6 +164,7 @@ export function startServer() {
     connection.onDidChangeTextDocument(evt =>
         manager.updateDocument(evt.textDocument, evt.contentChanges),
     );
+    connection.onDidChangeWatchedFiles(evt => manager.updateWatchedFiles(evt.changes));
     connection.onHover(evt => manager.doHover(evt.textDocument, evt.position));
     connection.onCompletion(evt =>
         manager.getCompletions(
@@ -99,7 +173,12 @@ export function startServer() {
             evt.context && evt.context.triggerCharacter,
         ),
     );
-    connection.onDocumentFormatting(evt => manager.formatDocument(evt.textDocument));
+    connection.onCompletionResolve(item => manager.resolveCompletion(item));
+    connection.onSignatureHelp(evt => manager.getSignatureHelp(evt.textDocument, evt.position));
+    connection.onDocumentFormatting(evt => manager.formatDocument(evt.textDocument, evt.options));
+    connection.onDocumentRangeFormatting(evt =>
+        manager.formatDocumentRange(evt.textDocument, evt.range, evt.options),
+    );
     connection.onRequest(TagCloseRequest.type, evt =>
         manager.doTagComplete(evt.textDocument, evt.position),
     );
@@ -108,10 +187,22 @@ export function startServer() {
         manager.getColorPresentations(evt.textDocument, evt.range, evt.color),
     );
     connection.onDocumentSymbol(evt => manager.getDocumentSymbols(evt.textDocument));
+    connection.onWorkspaceSymbol(evt => manager.getWorkspaceSymbols(evt.query));
     connection.onDefinition(evt => manager.getDefinitions(evt.textDocument, evt.position));
     connection.onCodeAction(evt =>
         manager.getCodeActions(evt.textDocument, evt.range, evt.context),
     );
+    connection.onRequest(SemanticTokensRequest.type, evt =>
+        manager.getSemanticTokens(evt.textDocument),
+    );
+    connection.onRequest(SemanticTokensDeltaRequest.type, evt =>
+        manager.getSemanticTokensDelta(evt.textDocument, evt.previousResultId),
+    );
+    connection.onFoldingRanges(evt => manager.getFoldingRanges(evt.textDocument));
+    connection.onReferences(evt =>
+        manager.findReferences(evt.textDocument, evt.position, evt.context),
+    );
+    connection.onRenameRequest(evt => manager.rename(evt.textDocument, evt.position, evt.newName));
 
     manager.on(
         'documentChange',
@@ -126,3 +217,11 @@ export function startServer() {
 
     connection.listen();
 }
+
+/**
+ * The default languages of the svelte config which applies to the document
+ */
+function loadDefaultLanguages(uri: string) {
+    const path = urlToPath(uri);
+    return path ? getDefaultLanguages(loadConfig(path)) : {};
+}
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { wrapFragmentPlugin } from '../../src/api/wrapFragmentPlugin';
+import { SvelteDocument } from '../../src/lib/documents/SvelteDocument';
+import {
+    Document,
+    Fragment,
+    TextEdit,
+    Range,
+    Plugin,
+    FormattingProvider,
+    CompletionResolveProvider,
+    CompletionItem,
+    Position,
+} from '../../src/api';
+
+describe('wrapFragmentPlugin', () => {
+    it('turns formatting edits of a fragment into minimal edits of the parent', async () => {
+        const formatter: Plugin & FormattingProvider = {
+            pluginId: 'test',
+            defaultConfig: {},
+            formatDocument(document: Document) {
+                return [
+                    TextEdit.replace(
+                        Range.create(
+                            document.positionAt(0),
+                            document.positionAt(document.getTextLength()),
+                        ),
+                        '\n    h1 {\n        color: red;\n    }\n',
+                    ),
+                ];
+            },
+            formatDocumentRange() {
+                return [];
+            },
+        };
+        const plugin = wrapFragmentPlugin(
+            formatter,
+            (fragment: Fragment) => fragment.details.attributes.tag === 'style',
+        );
+        const document = new SvelteDocument(
+            'file:///hello.svelte',
+            '<h1>Hello</h1>\n<style>\n    h1 {\n      color: red;\n    }\n</style>',
+        );
+
+        assert.deepStrictEqual(
+            await plugin.formatDocument(document, { tabSize: 4, insertSpaces: true }),
+            [TextEdit.replace(Range.create(3, 6, 3, 6), '  ')],
+        );
+    });
+
+    it('maps the additional text edits of resolved completions', async () => {
+        const resolver: Plugin & CompletionResolveProvider = {
+            pluginId: 'test',
+            defaultConfig: {},
+            resolveCompletion(_document: Document, item: CompletionItem) {
+                return {
+                    ...item,
+                    additionalTextEdits: [
+                        TextEdit.insert(Position.create(1, 0), "import { x } from './x';\n"),
+                    ],
+                };
+            },
+        };
+        const plugin = wrapFragmentPlugin(
+            resolver,
+            (fragment: Fragment) => fragment.details.attributes.tag === 'script',
+        );
+        const document = new SvelteDocument(
+            'file:///hello.svelte',
+            '<h1>Hello</h1>\n<script>\nx;\n</script>',
+        );
+
+        assert.deepStrictEqual(await plugin.resolveCompletion(document, { label: 'x' }), {
+            label: 'x',
+            additionalTextEdits: [
+                TextEdit.insert(Position.create(2, 0), "import { x } from './x';\n"),
+            ],
+        });
+    });
+});
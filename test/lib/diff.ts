@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { TextEdit, Range } from '../../src/api';
+import { TextDocument } from '../../src/lib/documents/TextDocument';
+import { applyTextEdits, computeTextEdits } from '../../src/lib/diff';
+
+describe('Diff', () => {
+    it('replaces only the characters which changed', () => {
+        const document = new TextDocument('file:///hello.ts', 'a\nb\nc\nd\ne');
+
+        assert.deepStrictEqual(computeTextEdits(document, 'a\nB\nc\nd\ne\nf\n'), [
+            TextEdit.replace(Range.create(1, 0, 1, 1), 'B'),
+            TextEdit.replace(Range.create(4, 1, 4, 1), '\nf\n'),
+        ]);
+    });
+
+    it('edits lines changed in place separately', () => {
+        const document = new TextDocument('file:///hello.ts', '{\na;\nb;\n}\n');
+
+        assert.deepStrictEqual(computeTextEdits(document, '{\n    a;\n    b;\n}\n'), [
+            TextEdit.replace(Range.create(1, 0, 1, 0), '    '),
+            TextEdit.replace(Range.create(2, 0, 2, 0), '    '),
+        ]);
+    });
+
+    it('returns no edits for identical texts', () => {
+        const document = new TextDocument('file:///hello.ts', 'a\nb\n');
+
+        assert.deepStrictEqual(computeTextEdits(document, 'a\nb\n'), []);
+    });
+
+    it('replaces texts which differ too much as a whole', () => {
+        const text = 'a\n'.repeat(600) + 'keep\n' + 'a\n'.repeat(600);
+        const newText = 'b\n'.repeat(600) + 'keep\n' + 'b\n'.repeat(601);
+        const document = new TextDocument('file:///hello.ts', text);
+        const edits = computeTextEdits(document, newText);
+
+        assert.deepStrictEqual(edits, [
+            TextEdit.replace(Range.create(0, 0, 1200, 1), newText.slice(0, -1)),
+        ]);
+        assert.strictEqual(applyTextEdits(document, edits), newText);
+    });
+});
@@ -1,6 +1,6 @@
 import * as sinon from 'sinon';
 import * as assert from 'assert';
-import { TextDocumentItem, Range, Position } from 'vscode-languageserver-types';
+import { TextDocumentItem, Range, Position, TextEdit } from 'vscode-languageserver-types';
 import { TextDocument } from '../../../src/lib/documents/TextDocument';
 import { DocumentManager } from '../../../src/lib/documents/DocumentManager';
 
@@ -131,4 +131,66 @@ describe('Document Manager', () => {
         sinon.assert.calledOnce(plugin.getCompletions);
         sinon.assert.calledWithExactly(plugin.getCompletions, document, pos, '.');
     });
+
+    it('resolves completions in the document of the item', async () => {
+        const manager = new DocumentManager(createTextDocument);
+        const item = {
+            label: 'hello',
+            data: { pluginId: 'test', uri: textDocument.uri, offset: 0 },
+        };
+        const resolved = { ...item, detail: 'hello: string' };
+        const plugin = {
+            pluginId: 'test',
+            defaultConfig: { enable: true },
+            resolveCompletion: sinon.stub().returns(resolved),
+        };
+        manager.register(plugin);
+        const document = manager.openDocument(textDocument);
+
+        assert.deepStrictEqual(await manager.resolveCompletion(item), resolved);
+        sinon.assert.calledWithExactly(plugin.resolveCompletion, document, item);
+    });
+
+    it('merges the rename edits of plugins', async () => {
+        const manager = new DocumentManager(createTextDocument);
+        const scriptEdit = TextEdit.replace(Range.create(0, 0, 0, 5), 'Hi');
+        const markupEdit = TextEdit.replace(Range.create(0, 7, 0, 12), 'Hi');
+        const scriptPlugin = {
+            pluginId: 'script',
+            defaultConfig: { enable: true },
+            rename: sinon.stub().returns({ changes: { [textDocument.uri]: [scriptEdit] } }),
+        };
+        const markupPlugin = {
+            pluginId: 'markup',
+            defaultConfig: { enable: true },
+            rename: sinon.stub().returns({ changes: { [textDocument.uri]: [markupEdit] } }),
+        };
+        manager.register(scriptPlugin);
+        manager.register(markupPlugin);
+        manager.openDocument(textDocument);
+
+        const edit = await manager.rename(textDocument, Position.create(0, 0), 'Hi');
+
+        assert.deepStrictEqual(edit, {
+            changes: { [textDocument.uri]: [scriptEdit, markupEdit] },
+        });
+    });
+
+    it('executes findReferences on plugins', async () => {
+        const manager = new DocumentManager(createTextDocument);
+        const plugin = {
+            pluginId: 'test',
+            defaultConfig: { enable: true },
+            findReferences: sinon.stub().returns([]),
+        };
+        manager.register(plugin);
+        const document = manager.openDocument(textDocument);
+
+        const pos = Position.create(0, 0);
+        const context = { includeDeclaration: true };
+        await manager.findReferences(textDocument, pos, context);
+
+        sinon.assert.calledOnce(plugin.findReferences);
+        sinon.assert.calledWithExactly(plugin.findReferences, document, pos, context);
+    });
 });
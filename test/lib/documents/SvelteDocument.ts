@@ -1,5 +1,8 @@
 import * as assert from 'assert';
+import { join } from 'path';
 import { SvelteDocument } from '../../../src/lib/documents/SvelteDocument';
+import { getDefaultLanguages, loadConfig } from '../../../src/plugins/svelte/config';
+import { pathToUrl } from '../../../src/utils';
 
 describe('Svelte Document', () => {
     it('gets the correct text', () => {
@@ -52,6 +55,47 @@ describe('Svelte Document', () => {
         });
     });
 
+    it('extracts the module script separately', () => {
+        const text =
+            '<script context="module">export const a = 1;</script>\n<script>let b;</script>';
+        const document = new SvelteDocument('file:///hello.html', text);
+
+        assert.strictEqual(document.script.getText(), 'let b;');
+        assert.strictEqual(document.moduleScript.getText(), 'export const a = 1;');
+        assert.deepStrictEqual(document.moduleScript.details.attributes, {
+            tag: 'script',
+            context: 'module',
+        });
+    });
+
+    it('uses the default languages of the svelte config', () => {
+        const path = join(__dirname, 'testfiles', 'Hello.svelte');
+        const languages = getDefaultLanguages(loadConfig(path));
+        const document = new SvelteDocument(
+            pathToUrl(path),
+            '<script>let a: number;</script><script context="module" lang="js"></script><style />',
+            languages,
+        );
+
+        assert.deepStrictEqual(languages, {
+            markup: undefined,
+            script: 'typescript',
+            style: 'scss',
+        });
+        assert.strictEqual(document.script.details.attributes.lang, 'typescript');
+        assert.strictEqual(document.moduleScript.details.attributes.lang, 'js');
+        assert.strictEqual(document.style.details.attributes.lang, 'scss');
+    });
+
+    it('updates the default languages', () => {
+        const document = new SvelteDocument('file:///hello.html', '<style />', { style: 'scss' });
+        const version = document.version;
+        document.setDefaultLanguages({});
+
+        assert.strictEqual(document.style.details.attributes.lang, undefined);
+        assert.ok(document.version > version);
+    });
+
     it('defaults fragment to the end of the component if not found', () => {
         const document = new SvelteDocument('file:///hello.html', '<h1>Hello, world</h1>');
         assert.strictEqual(document.script.details.start, 21);
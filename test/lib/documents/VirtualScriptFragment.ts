@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { SvelteDocument } from '../../../src/lib/documents/SvelteDocument';
+
+describe('Virtual Script Fragment', () => {
+    const text = '<script>let user;</script>\n<h1 title={user.name}>{user.age}</h1>';
+
+    it('copies the script and the markup expressions', () => {
+        const { virtualScript } = new SvelteDocument('file:///hello.svelte', text);
+        const code = virtualScript.getText();
+
+        assert.ok(code.startsWith('let user;'));
+        assert.ok(code.includes('(user.name);'));
+        assert.ok(code.includes('(user.age);'));
+    });
+
+    it('maps offsets of expressions to the parent', () => {
+        const { virtualScript } = new SvelteDocument('file:///hello.svelte', text);
+        const offset = virtualScript.getText().indexOf('user.age');
+
+        assert.strictEqual(virtualScript.offsetInParent(offset), text.indexOf('user.age'));
+        assert.strictEqual(virtualScript.offsetInFragment(text.indexOf('user.age')), offset);
+        assert.strictEqual(virtualScript.isGenerated(offset), false);
+        assert.strictEqual(virtualScript.isInScript(offset), false);
+        assert.strictEqual(virtualScript.isInScript(3), true);
+    });
+
+    it('is only in the parent inside of the script and expressions', () => {
+        const document = new SvelteDocument('file:///hello.svelte', text);
+        const { virtualScript } = document;
+
+        assert.strictEqual(virtualScript.isInFragment(document.positionAt(10)), true);
+        assert.strictEqual(
+            virtualScript.isInFragment(document.positionAt(text.indexOf('title'))),
+            false,
+        );
+        assert.strictEqual(
+            virtualScript.isInFragment(document.positionAt(text.indexOf('name'))),
+            true,
+        );
+    });
+
+    it('copies the module script before the instance script', () => {
+        const text = '<script>let b = a;</script><script context="module">const a = 1;</script>{b}';
+        const { virtualScript } = new SvelteDocument('file:///hello.svelte', text);
+        const code = virtualScript.getText();
+
+        assert.ok(code.startsWith('const a = 1;\nlet b = a;'));
+        assert.strictEqual(virtualScript.offsetInParent(6), text.indexOf('a = 1'));
+        assert.strictEqual(virtualScript.offsetInParent(17), text.indexOf('b = a'));
+        assert.strictEqual(virtualScript.isInScript(code.indexOf('let b')), true);
+        assert.strictEqual(virtualScript.isInScript(code.indexOf('(b);')), false);
+    });
+
+    it('maps the names of directives', () => {
+        const text = '<script>function tooltip() {}</script><p use:tooltip on:click={tooltip} />';
+        const { virtualScript } = new SvelteDocument('file:///hello.svelte', text);
+        const code = virtualScript.getText();
+        const offset = code.indexOf('tooltip(__sveltets_element');
+
+        assert.strictEqual(virtualScript.offsetInParent(offset), text.indexOf('use:') + 4);
+        assert.ok(code.includes('"click", tooltip);', offset));
+    });
+
+    it('maps shorthands and the tags of components', () => {
+        const text =
+            '<script>import Box from "./Box.svelte"; let open;</script>' +
+            '<Box {open}><input bind:open /></Box>';
+        const { virtualScript } = new SvelteDocument('file:///hello.svelte', text);
+        const code = virtualScript.getText();
+        const attribute = code.indexOf('({open})');
+        const binding = code.indexOf('open = ');
+
+        assert.deepStrictEqual(virtualScript.getShorthandAt(attribute + 2), {
+            generatedStart: attribute + 1,
+            length: '{open}'.length,
+            name: 'open',
+        });
+        assert.strictEqual(virtualScript.offsetInParent(binding), text.indexOf('bind:') + 5);
+        assert.strictEqual(virtualScript.getShorthandAt(binding)!.name, 'open');
+        assert.strictEqual(
+            virtualScript.offsetInParent(code.lastIndexOf('Box;')),
+            text.lastIndexOf('Box'),
+        );
+    });
+
+    it('declares the bindings of blocks', () => {
+        const { virtualScript } = new SvelteDocument(
+            'file:///hello.svelte',
+            [
+                '{#each items as item, i}{item}{/each}',
+                '{#await promise then value}{value}{/await}',
+                '<Child let:foo><p slot="bar" let:baz={qux}>{foo}{qux}</p></Child>',
+            ].join(''),
+        );
+        const code = virtualScript.getText();
+
+        assert.ok(code.includes('for (let item of __sveltets_each(items))'));
+        assert.ok(code.includes('const i = __sveltets_any() as number;'));
+        assert.ok(code.includes('const value = __sveltets_await(promise);'));
+        assert.ok(code.includes('const foo = __sveltets_slot(Child, "default")["foo"];'));
+        assert.ok(code.includes('const qux = __sveltets_slot(Child, "bar")["baz"];'));
+    });
+
+    it('copies incomplete expressions', () => {
+        const document = new SvelteDocument(
+            'file:///hello.svelte',
+            '<script>let user;</script>\n<h1>{user.}</h1>\n<p>{user.\n</p>',
+        );
+        const code = document.virtualScript.getText();
+
+        assert.strictEqual(code.match(/\(user\.\);/g)!.length, 2);
+    });
+
+    it('updates when the parent changes', () => {
+        const document = new SvelteDocument('file:///hello.svelte', text);
+        document.setText('<script>let a;</script>{a}');
+
+        assert.ok(document.virtualScript.getText().includes('(a);'));
+    });
+});
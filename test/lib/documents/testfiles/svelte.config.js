@@ -0,0 +1,9 @@
+module.exports = {
+    preprocess: {
+        defaultLanguages: {
+            markup: 'html',
+            script: 'typescript',
+            style: 'scss',
+        },
+    },
+};
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { Range } from '../../src/api';
+import { encodeSemanticTokens, computeSemanticTokensDelta } from '../../src/lib/semanticTokens';
+
+describe('Semantic Tokens', () => {
+    it('encodes tokens relative to each other', () => {
+        const tokens = encodeSemanticTokens([
+            { range: Range.create(2, 4, 2, 9), type: 'keyword' },
+            { range: Range.create(0, 3, 0, 6), type: 'variable', modifiers: ['readonly'] },
+            { range: Range.create(2, 10, 2, 14), type: 'event' },
+        ]);
+
+        assert.deepStrictEqual(tokens.data, [0, 3, 3, 7, 2, 2, 4, 5, 11, 0, 0, 6, 4, 9, 0]);
+    });
+
+    it('drops overlapping and unknown tokens', () => {
+        const tokens = encodeSemanticTokens([
+            { range: Range.create(0, 0, 0, 5), type: 'keyword' },
+            { range: Range.create(0, 2, 0, 4), type: 'variable' },
+            { range: Range.create(1, 0, 1, 4), type: 'unknown' },
+            { range: Range.create(1, 0, 2, 4), type: 'variable' },
+        ]);
+
+        assert.deepStrictEqual(tokens.data, [0, 0, 5, 11, 0]);
+    });
+
+    it('computes the delta between two results', () => {
+        const previous = { resultId: '1', data: [0, 0, 5, 11, 0, 1, 2, 3, 7, 0] };
+        const current = { resultId: '2', data: [0, 0, 5, 11, 0, 2, 2, 3, 7, 0] };
+
+        assert.deepStrictEqual(computeSemanticTokensDelta(previous, current), {
+            resultId: '2',
+            edits: [{ start: 5, deleteCount: 1, data: [2] }],
+        });
+    });
+});
@@ -7,7 +7,11 @@ import {
     CompletionItem,
     CompletionItemKind,
     TextEdit,
+    FoldingRange,
 } from '../../src/api';
+import { wrapFragmentPlugin } from '../../src/api/wrapFragmentPlugin';
+import { DocumentManager } from '../../src/lib/documents/DocumentManager';
+import { SvelteDocument } from '../../src/lib/documents/SvelteDocument';
 import { TextDocument } from '../../src/lib/documents/TextDocument';
 import { CSSPlugin } from '../../src/plugins/CSSPlugin';
 
@@ -61,4 +65,25 @@ describe('CSS Plugin', () => {
             sortText: 'd',
         });
     });
+
+    it('provides folding ranges of styles in the lines of the component', async () => {
+        const manager = new DocumentManager(
+            textDocument => new SvelteDocument(textDocument.uri, textDocument.text),
+        );
+        manager.register(wrapFragmentPlugin(new CSSPlugin(), CSSPlugin.matchFragment));
+        const document = manager.openDocument({
+            uri: 'file:///hello.svelte',
+            languageId: 'svelte',
+            version: 0,
+            text:
+                '<p>a</p>\n<style>\n.a {\n  color: red;\n}\n' +
+                '@media print {\n  .a {\n    color: black;\n  }\n}\n</style>',
+        });
+
+        assert.deepStrictEqual(await manager.getFoldingRanges({ uri: document.getURL() }), [
+            FoldingRange.create(2, 3),
+            FoldingRange.create(5, 8),
+            FoldingRange.create(6, 7),
+        ]);
+    });
 });
@@ -8,6 +8,8 @@ import {
     TextEdit,
     CompletionItemKind,
     InsertTextFormat,
+    FoldingRange,
+    FoldingRangeKind,
 } from '../../src/api';
 import { HTMLPlugin } from '../../src/plugins/HTMLPlugin';
 import { TextDocument } from '../../src/lib/documents/TextDocument';
@@ -57,4 +59,25 @@ describe('HTML Plugin', () => {
             insertTextFormat: InsertTextFormat.PlainText,
         });
     });
+
+    it('provides folding ranges for elements and regions', async () => {
+        const plugin = new HTMLPlugin();
+        const document = new TextDocument(
+            'file:///hello.html',
+            '<div>\n<ul>\n<li>a</li>\n</ul>\n</div>\n<!-- #region -->\n<p></p>\n<!-- #endregion -->',
+        );
+        const host = Object.assign(new EventEmitter(), {
+            getConfig() {
+                return true;
+            },
+        });
+        plugin.onRegister(host as any);
+        host.emit('documentChange|pre', document);
+
+        assert.deepStrictEqual(plugin.getFoldingRanges(document), [
+            FoldingRange.create(1, 2),
+            FoldingRange.create(0, 3),
+            FoldingRange.create(5, 7, undefined, undefined, FoldingRangeKind.Region),
+        ]);
+    });
 });
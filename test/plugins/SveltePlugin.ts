@@ -1,21 +1,54 @@
 import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import { join } from 'path';
 import { SveltePlugin } from '../../src/plugins/SveltePlugin';
 import { SvelteDocument } from '../../src/lib/documents/SvelteDocument';
-import { Diagnostic, Range, DiagnosticSeverity } from '../../src/api';
+import {
+    Diagnostic,
+    Range,
+    DiagnosticSeverity,
+    Position,
+    TextEdit,
+    FoldingRange,
+    SymbolInformation,
+    CompletionItemKind,
+    MarkupKind,
+    InsertTextFormat,
+    SymbolKind,
+    LocationLink,
+    Document,
+} from '../../src/api';
+import { pathToUrl } from '../../src/utils';
+
+/**
+ * Registers a svelte plugin on a host which enables all features. The host has no open documents,
+ * so components are read from disk unless a test replaces `getDocument`.
+ */
+function setup(workspaceUris: string[] = []) {
+    const plugin = new SveltePlugin();
+    const host = Object.assign(new EventEmitter(), {
+        getConfig() {
+            return true;
+        },
+        getDocument(_uri: string): Document | undefined {
+            return undefined;
+        },
+        getWorkspaceUris() {
+            return workspaceUris;
+        },
+    });
+    plugin.onRegister(host as any);
+
+    return { plugin, host };
+}
 
 describe('Svelte Plugin', () => {
     it('provides diagnostic warnings', async () => {
-        const plugin = new SveltePlugin();
+        const { plugin } = setup();
         const document = new SvelteDocument(
             'file:///hello.html',
             '<h1>Hello, world!</h1>\n<img src="hello.png">',
         );
-        const host = {
-            getConfig() {
-                return true;
-            },
-        };
-        plugin.onRegister(host as any);
         const diagnostics = await plugin.getDiagnostics(document);
         const diagnostic = Diagnostic.create(
             Range.create(1, 0, 1, 21),
@@ -29,14 +62,8 @@ describe('Svelte Plugin', () => {
     });
 
     it('provides diagnostic errors', async () => {
-        const plugin = new SveltePlugin();
+        const { plugin } = setup();
         const document = new SvelteDocument('file:///hello.html', '<div bind:whatever></div>');
-        const host = {
-            getConfig() {
-                return true;
-            },
-        };
-        plugin.onRegister(host as any);
         const diagnostics = await plugin.getDiagnostics(document);
         const diagnostic = Diagnostic.create(
             Range.create(0, 10, 0, 18),
@@ -48,4 +75,329 @@ describe('Svelte Plugin', () => {
 
         assert.deepStrictEqual(diagnostics, [diagnostic]);
     });
+
+    it('provides folding ranges for blocks', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            'file:///hello.svelte',
+            [
+                '{#if a}',
+                '    <p>a</p>',
+                '{:else}',
+                '    {#each items as item}',
+                '        {item}',
+                '    {/each}',
+                '{/if}',
+            ].join('\n'),
+        );
+
+        assert.deepStrictEqual(plugin.getFoldingRanges(document), [
+            FoldingRange.create(0, 1),
+            FoldingRange.create(2, 5),
+            FoldingRange.create(3, 4),
+        ]);
+    });
+
+    it('provides semantic tokens for the syntax of svelte and stores', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            'file:///hello.svelte',
+            '<script>const count = writable(0);\n$count;</script>\n' +
+                '{#each items as item}<p on:click|once={() => $count} class:active use:tooltip>' +
+                '{@html item}</p>{:else}none{/each}',
+        );
+        const tokens = await plugin.getSemanticTokens(document);
+
+        assert.deepStrictEqual(tokens.map(({ range, type }) => ({ range, type })), [
+            { range: Range.create(2, 1, 2, 6), type: 'keyword' },
+            { range: Range.create(2, 95, 2, 100), type: 'keyword' },
+            { range: Range.create(2, 106, 2, 111), type: 'keyword' },
+            { range: Range.create(2, 13, 2, 15), type: 'keyword' },
+            { range: Range.create(2, 24, 2, 26), type: 'keyword' },
+            { range: Range.create(2, 27, 2, 32), type: 'event' },
+            { range: Range.create(2, 33, 2, 37), type: 'modifier' },
+            { range: Range.create(2, 45, 2, 51), type: 'variable' },
+            { range: Range.create(2, 53, 2, 58), type: 'keyword' },
+            { range: Range.create(2, 59, 2, 65), type: 'property' },
+            { range: Range.create(2, 66, 2, 69), type: 'keyword' },
+            { range: Range.create(2, 70, 2, 77), type: 'function' },
+            { range: Range.create(2, 79, 2, 84), type: 'keyword' },
+            { range: Range.create(1, 0, 1, 6), type: 'variable' },
+        ]);
+    });
+
+    it('reports unknown and missing props of components', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            pathToUrl(join(__dirname, 'testfiles', 'Signup.svelte')),
+            '<script>import Field from \'./Field.svelte\';</script>\n<Field value="a" colour="red" />',
+        );
+        const diagnostics = await plugin.getDiagnostics(document);
+
+        assert.deepStrictEqual(diagnostics, [
+            Diagnostic.create(
+                Range.create(1, 17, 1, 23),
+                "<Field> was created with unknown prop 'colour'",
+                DiagnosticSeverity.Warning,
+                'unknown-prop',
+                'svelte',
+            ),
+            Diagnostic.create(
+                Range.create(1, 1, 1, 6),
+                "<Field> was created without expected prop 'label'",
+                DiagnosticSeverity.Warning,
+                'missing-prop',
+                'svelte',
+            ),
+        ]);
+    });
+
+    it('accepts any prop on components which spread $$restProps', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            pathToUrl(join(__dirname, 'testfiles', 'Search.svelte')),
+            '<script>import Input from \'./Input.svelte\';</script>\n<Input placeholder="Search" />',
+        );
+
+        assert.deepStrictEqual(await plugin.getDiagnostics(document), []);
+    });
+
+    it('resolves components through tsconfig paths and packages', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            pathToUrl(join(__dirname, 'testfiles', 'paths', 'App.svelte')),
+            [
+                "<script>import Badge from '@/Badge.svelte';",
+                "import Chip from 'chips/src/Chip.svelte';</script>",
+                '<Badge /><Chip />',
+            ].join('\n'),
+        );
+        const diagnostics = await plugin.getDiagnostics(document);
+
+        assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.message), [
+            "<Badge> was created without expected prop 'label'",
+            "<Chip> was created without expected prop 'text'",
+        ]);
+    });
+
+    it('provides completions for the props of components', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            pathToUrl(join(__dirname, 'testfiles', 'Signup.svelte')),
+            '<script>import Field from \'./Field.svelte\';</script>\n<Field value="a" ',
+        );
+        const completions = plugin.getCompletions(document, Position.create(1, 17));
+
+        assert.deepStrictEqual(completions, {
+            isIncomplete: false,
+            items: [
+                {
+                    label: 'label',
+                    kind: CompletionItemKind.Property,
+                    detail: 'label',
+                    documentation: {
+                        kind: MarkupKind.Markdown,
+                        value: 'Shown above the input\n\nRequired',
+                    },
+                    insertText: 'label={$1}',
+                    insertTextFormat: InsertTextFormat.Snippet,
+                    sortText: '0',
+                },
+            ],
+        });
+    });
+
+    it('provides completions for the events of components', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            pathToUrl(join(__dirname, 'testfiles', 'Page.svelte')),
+            "<script>import Dialog from './Dialog.svelte';</script>\n<Dialog on:",
+        );
+        const completions = plugin.getCompletions(document, Position.create(1, 11));
+        const range = Range.create(1, 8, 1, 11);
+
+        assert.deepStrictEqual(completions!.items, [
+            {
+                label: 'on:confirm',
+                kind: CompletionItemKind.Event,
+                detail: 'CustomEvent<{ answer: string }>',
+                documentation: 'Fired when the dialog is confirmed',
+                textEdit: TextEdit.replace(range, 'on:confirm={$1}'),
+                insertTextFormat: InsertTextFormat.Snippet,
+                sortText: '0',
+            },
+            {
+                label: 'on:close',
+                kind: CompletionItemKind.Event,
+                detail: 'CustomEvent<null>',
+                documentation: undefined,
+                textEdit: TextEdit.replace(range, 'on:close={$1}'),
+                insertTextFormat: InsertTextFormat.Snippet,
+                sortText: '0',
+            },
+            {
+                label: 'on:keydown',
+                kind: CompletionItemKind.Event,
+                detail: 'Event',
+                documentation: undefined,
+                textEdit: TextEdit.replace(range, 'on:keydown={$1}'),
+                insertTextFormat: InsertTextFormat.Snippet,
+                sortText: '0',
+            },
+        ]);
+    });
+
+    it('provides hover info for the events of components', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            pathToUrl(join(__dirname, 'testfiles', 'Page.svelte')),
+            "<script>import Dialog from './Dialog.svelte';</script>\n<Dialog on:confirm={save} />",
+        );
+
+        assert.deepStrictEqual(plugin.doHover(document, Position.create(1, 13)), {
+            range: Range.create(1, 8, 1, 18),
+            contents: {
+                kind: MarkupKind.Markdown,
+                value:
+                    '```ts\n(event) confirm: CustomEvent<{ answer: string }>\n```\n\n' +
+                    'Fired when the dialog is confirmed',
+            },
+        });
+        assert.strictEqual(plugin.doHover(document, Position.create(1, 20)), null);
+    });
+
+    it('provides completions for the slots of components', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            pathToUrl(join(__dirname, 'testfiles', 'Page.svelte')),
+            "<script>import List from './List.svelte';</script>\n" +
+                '<List >\n<h1 slot=""></h1>\n<p slot="footer" ></p>\n</List>',
+        );
+        const getLabels = (position: Position) =>
+            plugin
+                .getCompletions(document, position)!
+                .items.filter(item => item.kind !== CompletionItemKind.Property)
+                .map(item => item.label);
+
+        assert.deepStrictEqual(getLabels(Position.create(1, 6)), ['let:item', 'let:index']);
+        assert.deepStrictEqual(getLabels(Position.create(2, 10)), ['header', 'footer']);
+        assert.deepStrictEqual(getLabels(Position.create(3, 17)), ['let:count']);
+    });
+
+    it('provides definitions for slot attributes', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            pathToUrl(join(__dirname, 'testfiles', 'Page.svelte')),
+            "<script>import List from './List.svelte';</script>\n" +
+                '<List><h1 slot="header"></h1></List>',
+        );
+        const range = Range.create(4, 8, 4, 30);
+
+        assert.deepStrictEqual(plugin.getDefinitions(document, Position.create(1, 14)), [
+            LocationLink.create(
+                pathToUrl(join(__dirname, 'testfiles', 'List.svelte')),
+                range,
+                range,
+                Range.create(1, 10, 1, 23),
+            ),
+        ]);
+        assert.deepStrictEqual(plugin.getDefinitions(document, Position.create(1, 3)), []);
+    });
+
+    it('provides workspace symbols of components', async () => {
+        const { plugin, host } = setup([pathToUrl(join(__dirname, 'testfiles'))]);
+        const buttonUri = pathToUrl(join(__dirname, 'testfiles', 'Button.svelte'));
+
+        assert.deepStrictEqual(plugin.getWorkspaceSymbols('button'), [
+            SymbolInformation.create(
+                'Button',
+                SymbolKind.Class,
+                Range.create(0, 0, 1, 0),
+                buttonUri,
+            ),
+        ]);
+
+        const document = new SvelteDocument(
+            buttonUri,
+            '<script>export let size;</script>\n<button class="btn" />\n<style>.btn {}</style>',
+        );
+        host.getDocument = () => document;
+        host.emit('documentChange', document);
+
+        assert.deepStrictEqual(plugin.getWorkspaceSymbols('size'), [
+            SymbolInformation.create(
+                'size',
+                SymbolKind.Property,
+                Range.create(0, 19, 0, 23),
+                buttonUri,
+                'Button',
+            ),
+        ]);
+        assert.deepStrictEqual(plugin.getWorkspaceSymbols('.btn'), [
+            SymbolInformation.create(
+                '.btn',
+                SymbolKind.Class,
+                Range.create(2, 7, 2, 14),
+                buttonUri,
+                'Button',
+            ),
+        ]);
+    });
+
+    it('formats using the client options', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            'file:///hello.svelte',
+            '<div>\n<p   class="a">a</p>\n<p   class="b">b</p>\n</div>\n',
+        );
+
+        assert.deepStrictEqual(
+            await plugin.formatDocument(document, { tabSize: 4, insertSpaces: false }),
+            [
+                TextEdit.replace(Range.create(1, 0, 1, 4), '\t<p'),
+                TextEdit.replace(Range.create(2, 0, 2, 4), '\t<p'),
+            ],
+        );
+        assert.deepStrictEqual(
+            await plugin.formatDocumentRange(document, Range.create(2, 0, 2, 5), {
+                tabSize: 4,
+                insertSpaces: true,
+            }),
+            [TextEdit.replace(Range.create(2, 0, 2, 4), '    <p')],
+        );
+    });
+
+    it('formats only inside of the range', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            'file:///hello.svelte',
+            '<div>\n<p   class="a"\n>a</p>\n<p   class="b">b</p>\n</div>\n',
+        );
+        const options = { tabSize: 4, insertSpaces: true };
+
+        assert.deepStrictEqual(
+            await plugin.formatDocumentRange(document, Range.create(1, 0, 3, 19), options),
+            [TextEdit.replace(Range.create(1, 0, 3, 4), '    <p class="a">a</p>\n    <p')],
+        );
+    });
+
+    it('drops formatting edits which cross the boundaries of the range', async () => {
+        const { plugin } = setup();
+        const document = new SvelteDocument(
+            'file:///hello.svelte',
+            '<div>\n<p   class="a"\n>a</p>\n<p   class="b">b</p>\n</div>\n',
+        );
+        const options = { tabSize: 4, insertSpaces: true };
+
+        // The whole document is formatted, the edit of lines 1 to 3 ends after the first range
+        // and starts before the second one
+        assert.deepStrictEqual(
+            await plugin.formatDocumentRange(document, Range.create(1, 0, 1, 14), options),
+            [],
+        );
+        assert.deepStrictEqual(
+            await plugin.formatDocumentRange(document, Range.create(3, 0, 4, 6), options),
+            [],
+        );
+    });
 });
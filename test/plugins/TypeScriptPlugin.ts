@@ -0,0 +1,643 @@
+import * as assert from 'assert';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+    CompletionItemKind,
+    Diagnostic,
+    Document,
+    FoldingRange,
+    Hover,
+    Location,
+    ParameterInformation,
+    Position,
+    Range,
+    SignatureHelp,
+    SignatureInformation,
+    SymbolKind,
+    TextEdit,
+} from '../../src/api';
+import { wrapFragmentPlugin } from '../../src/api/wrapFragmentPlugin';
+import { DocumentManager } from '../../src/lib/documents/DocumentManager';
+import { SvelteDocument } from '../../src/lib/documents/SvelteDocument';
+import { TypeScriptPlugin } from '../../src/plugins/TypeScriptPlugin';
+import { pathToUrl } from '../../src/utils';
+
+/**
+ * Opens a component in a project of the test files, by default the strict one. The language
+ * services are shared between the tests, so every test needs to use its own file name.
+ */
+function setup(
+    filename: string,
+    text: string,
+    project = 'typescript',
+): { manager: DocumentManager; document: Document } {
+    const manager = new DocumentManager(
+        textDocument => new SvelteDocument(textDocument.uri, textDocument.text),
+    );
+    manager.register(wrapFragmentPlugin(new TypeScriptPlugin(), TypeScriptPlugin.matchFragment));
+    const document = manager.openDocument({
+        uri: pathToUrl(join(__dirname, 'testfiles', project, filename)),
+        languageId: 'svelte',
+        version: 0,
+        text,
+    });
+
+    return { manager, document };
+}
+
+/**
+ * Opens a component of the test files in the manager. The language services are shared between
+ * the tests, so components found by the language service may belong to another manager.
+ */
+function openFile(manager: DocumentManager, filename: string): string {
+    const path = join(__dirname, 'testfiles', 'typescript', filename);
+    manager.openDocument({
+        uri: pathToUrl(path),
+        languageId: 'svelte',
+        version: 0,
+        text: readFileSync(path, 'utf-8'),
+    });
+
+    return pathToUrl(path);
+}
+
+async function getDiagnostics(filename: string, text: string): Promise<Diagnostic[]> {
+    const { manager, document } = setup(filename, text);
+    return manager.getDiagnostics({ uri: document.getURL() });
+}
+
+describe('TypeScript Plugin', function() {
+    // Creating the language service and checking the lib files takes a while
+    this.timeout(10000);
+
+    it('types the events of components in their handlers', async () => {
+        const diagnostics = await getDiagnostics(
+            'ComponentEvents.svelte',
+            '<script lang="ts">import Child from "./Child.svelte";</script>\n' +
+                '<Child on:save={e => e.detail.toUpperCase()} on:unknown={e => e.detail} />',
+        );
+
+        assert.deepStrictEqual(diagnostics, []);
+
+        const [diagnostic] = await getDiagnostics(
+            'ComponentEventsDetail.svelte',
+            '<script lang="ts">import Child from "./Child.svelte";</script>\n' +
+                '<Child on:save={e => e.detail.toFixed()} />',
+        );
+        assert.deepStrictEqual(diagnostic.range, Range.create(1, 30, 1, 37));
+    });
+
+    it('checks event handlers and bindings against their elements', async () => {
+        const diagnostics = await getDiagnostics(
+            'Bindings.svelte',
+            '<script lang="ts">let count = 0;</script>\n' +
+                '<input bind:value={count} on:keydown={e => e.key.push()} />',
+        );
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ range, source, code }) => ({ range, source, code })),
+            [
+                { range: Range.create(1, 19, 1, 24), source: 'ts', code: 2322 },
+                { range: Range.create(1, 49, 1, 53), source: 'ts', code: 2339 },
+            ],
+        );
+    });
+
+    it('checks the parameters of directives', async () => {
+        const diagnostics = await getDiagnostics(
+            'Directives.svelte',
+            '<script lang="ts">function tooltip(node: HTMLElement, text: string) {\n' +
+                'node.title = text;\n}</script>\n' +
+                '<p use:tooltip={1} /><p use:tooltip={"a"} /><input use:tooltip={"b"} />',
+        );
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ range, source, code }) => ({ range, source, code })),
+            [{ range: Range.create(3, 16, 3, 17), source: 'ts', code: 2345 }],
+        );
+    });
+
+    it('types $$props and checks the props of dynamic components', async () => {
+        const diagnostics = await getDiagnostics(
+            'Props.svelte',
+            '<script lang="ts">import Child from "./Child.svelte"; export let count: number;</script>\n' +
+                '{$$props.count.push()}{$$restProps.other}\n' +
+                '<svelte:component this={Child} name="a" /><svelte:component this={Child} name={1} />',
+        );
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ range, source, code }) => ({ range, source, code })),
+            [
+                { range: Range.create(1, 15, 1, 19), source: 'ts', code: 2339 },
+                { range: Range.create(2, 73, 2, 77), source: 'ts', code: 2322 },
+            ],
+        );
+    });
+
+    it('infers the types of each items and slot props', async () => {
+        const { manager, document } = setup(
+            'Blocks.svelte',
+            '<script lang="ts">import Child from "./Child.svelte"; const counts = [1, 2];</script>\n' +
+                '{#each counts as count}{count}{/each}<Child let:item>{item}</Child>',
+        );
+        const textDocument = { uri: document.getURL() };
+
+        assert.deepStrictEqual(await manager.doHover(textDocument, Position.create(1, 24)), <Hover>{
+            range: Range.create(1, 24, 1, 29),
+            contents: { language: 'ts', value: 'let count: number' },
+        });
+        assert.deepStrictEqual(await manager.doHover(textDocument, Position.create(1, 54)), <Hover>{
+            range: Range.create(1, 54, 1, 58),
+            contents: { language: 'ts', value: 'const item: string' },
+        });
+    });
+
+    it('types the values of stores', async () => {
+        const diagnostics = await getDiagnostics(
+            'Stores.svelte',
+            '<script lang="ts">import { writable } from "svelte/store"; const count = writable(0);</script>\n' +
+                '{$count.push()}{$count.toFixed()}',
+        );
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ range, source, code }) => ({ range, source, code })),
+            [{ range: Range.create(1, 8, 1, 12), source: 'ts', code: 2339 }],
+        );
+    });
+
+    it('infers the types of reactive declarations', async () => {
+        const diagnostics = await getDiagnostics(
+            'Reactive.svelte',
+            '<script lang="ts">let count = 0; $: doubled = count * 2;</script>\n' +
+                '{doubled.push()}{doubled.toFixed()}',
+        );
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ range, source, code }) => ({ range, source, code })),
+            [{ range: Range.create(1, 9, 1, 13), source: 'ts', code: 2339 }],
+        );
+    });
+
+    it('types the default export of components', async () => {
+        const diagnostics = await getDiagnostics(
+            'DefaultExport.svelte',
+            '<script lang="ts">import Child from "./Child.svelte";\n' +
+                'new Child({ target: document.body, props: { name: 1 } });\n' +
+                'new Child({ target: document.body }).$on("save", e => e.detail.push());</script>',
+        );
+
+        assert.deepStrictEqual(
+            diagnostics.map(({ range, source, code }) => ({ range, source, code })),
+            [
+                { range: Range.create(1, 35, 1, 40), source: 'ts', code: 2322 },
+                { range: Range.create(2, 63, 2, 67), source: 'ts', code: 2339 },
+            ],
+        );
+    });
+
+    it('resolves packages to their types or else their svelte sources', async () => {
+        const { manager, document } = setup(
+            'Packages.svelte',
+            '<script lang="ts">import { Chip } from "chips"; import { version } from "typed-chips";\n' +
+                'new Chip({ target: document.body }); version;</script>',
+            'paths',
+        );
+        const textDocument = { uri: document.getURL() };
+
+        assert.deepStrictEqual(await manager.getDiagnostics(textDocument), []);
+        assert.deepStrictEqual(await manager.doHover(textDocument, Position.create(1, 37)), <Hover>{
+            range: Range.create(1, 37, 1, 44),
+            contents: { language: 'ts', value: '(alias) const version: string\nimport version' },
+        });
+    });
+
+    it('provides signature help in the script and in expressions', async () => {
+        const { manager, document } = setup(
+            'SignatureHelp.svelte',
+            '<script lang="ts">\n/** Adds numbers */\n' +
+                'function add(a: number, b: number) { return a + b; }\nadd(1, );\n</script>\n' +
+                '<p>{add(1, 2)}</p>',
+        );
+        const textDocument = { uri: document.getURL() };
+        const signatures = [
+            SignatureInformation.create(
+                'add(a: number, b: number): number',
+                'Adds numbers',
+                ParameterInformation.create('a: number', ''),
+                ParameterInformation.create('b: number', ''),
+            ),
+        ];
+
+        assert.deepStrictEqual(
+            await manager.getSignatureHelp(textDocument, Position.create(3, 7)),
+            <SignatureHelp>{ activeSignature: 0, activeParameter: 1, signatures },
+        );
+        assert.deepStrictEqual(
+            await manager.getSignatureHelp(textDocument, Position.create(5, 8)),
+            <SignatureHelp>{ activeSignature: 0, activeParameter: 0, signatures },
+        );
+        assert.deepStrictEqual(
+            await manager.getSignatureHelp(textDocument, Position.create(5, 11)),
+            <SignatureHelp>{ activeSignature: 0, activeParameter: 1, signatures },
+        );
+        assert.strictEqual(
+            await manager.getSignatureHelp(textDocument, Position.create(5, 2)),
+            null,
+        );
+    });
+
+    it('renames usages in the markup and expands shorthands', async () => {
+        const { manager, document } = setup(
+            'RenameShorthands.svelte',
+            '<script lang="ts">import Child from "./Child.svelte"; let name = ""; const obj = { name };\n' +
+                'function greet(name: string) { return name; }</script>\n' +
+                '{obj.name}{greet(name)}<p {name} class:name /><Child bind:name />' +
+                '{#each [1] as name}{name}{/each}',
+        );
+
+        assert.deepStrictEqual(
+            await manager.rename({ uri: document.getURL() }, Position.create(0, 60), 'title'),
+            {
+                changes: {
+                    [document.getURL()]: [
+                        TextEdit.replace(Range.create(0, 58, 0, 62), 'title'),
+                        TextEdit.replace(Range.create(0, 83, 0, 87), 'name: title'),
+                        TextEdit.replace(Range.create(2, 17, 2, 21), 'title'),
+                        TextEdit.replace(Range.create(2, 26, 2, 32), 'name={title}'),
+                        TextEdit.replace(Range.create(2, 39, 2, 43), 'name={title}'),
+                        TextEdit.replace(Range.create(2, 58, 2, 62), 'name={title}'),
+                    ],
+                },
+            },
+        );
+        assert.deepStrictEqual(
+            await manager.rename({ uri: document.getURL() }, Position.create(2, 5), 'title'),
+            {
+                changes: {
+                    [document.getURL()]: [
+                        TextEdit.replace(Range.create(0, 83, 0, 87), 'title: name'),
+                        TextEdit.replace(Range.create(2, 5, 2, 9), 'title'),
+                    ],
+                },
+            },
+        );
+    });
+
+    it('renames the tags of components', async () => {
+        const { manager, document } = setup(
+            'RenameTags.svelte',
+            '<script lang="ts">import Child from "./Child.svelte";</script>\n' +
+                '<Child><Child /></Child>',
+        );
+
+        assert.deepStrictEqual(
+            await manager.rename({ uri: document.getURL() }, Position.create(1, 9), 'Item'),
+            {
+                changes: {
+                    [document.getURL()]: [
+                        TextEdit.replace(Range.create(0, 25, 0, 30), 'Item'),
+                        TextEdit.replace(Range.create(1, 1, 1, 6), 'Item'),
+                        TextEdit.replace(Range.create(1, 18, 1, 23), 'Item'),
+                        TextEdit.replace(Range.create(1, 8, 1, 13), 'Item'),
+                    ],
+                },
+            },
+        );
+    });
+
+    it('renames usages in the markup of other components', async () => {
+        const { manager, document } = setup(
+            'RenameImports.svelte',
+            '<script lang="ts">import { format } from "./utils";</script>\n{format(1)}',
+        );
+        const usesUri = openFile(manager, 'Uses.svelte');
+
+        assert.deepStrictEqual(
+            await manager.rename({ uri: document.getURL() }, Position.create(1, 2), 'print'),
+            {
+                changes: {
+                    [document.getURL()]: [
+                        TextEdit.replace(Range.create(0, 27, 0, 33), 'print'),
+                        TextEdit.replace(Range.create(1, 1, 1, 7), 'print'),
+                    ],
+                    [pathToUrl(join(__dirname, 'testfiles', 'typescript', 'utils.ts'))]: [
+                        TextEdit.replace(Range.create(0, 16, 0, 22), 'print'),
+                    ],
+                    [usesUri]: [
+                        TextEdit.replace(Range.create(2, 13, 2, 19), 'print'),
+                        TextEdit.replace(Range.create(5, 12, 5, 18), 'print'),
+                    ],
+                },
+            },
+        );
+    });
+
+    it('finds references in the markup and in other components', async () => {
+        const { manager, document } = setup(
+            'References.svelte',
+            '<script lang="ts">import Item from "./Item.svelte"; let name = "";\n' +
+                'function greet(name: string) { return name; }</script>\n' +
+                '<Item {name}>{greet(name)}</Item><Item bind:name />{#each [1] as name}{name}{/each}',
+        );
+        openFile(manager, 'Item.svelte');
+        const usesUri = openFile(manager, 'Uses.svelte');
+        const textDocument = { uri: document.getURL() };
+
+        assert.deepStrictEqual(
+            await manager.findReferences(textDocument, Position.create(0, 56), {
+                includeDeclaration: true,
+            }),
+            [
+                Location.create(document.getURL(), Range.create(0, 56, 0, 60)),
+                Location.create(document.getURL(), Range.create(2, 7, 2, 11)),
+                Location.create(document.getURL(), Range.create(2, 20, 2, 24)),
+                Location.create(document.getURL(), Range.create(2, 44, 2, 48)),
+            ],
+        );
+        assert.deepStrictEqual(
+            await manager.findReferences(textDocument, Position.create(2, 2), {
+                includeDeclaration: false,
+            }),
+            [
+                Location.create(usesUri, Range.create(5, 1, 5, 5)),
+                Location.create(document.getURL(), Range.create(2, 1, 2, 5)),
+                Location.create(document.getURL(), Range.create(2, 28, 2, 32)),
+                Location.create(document.getURL(), Range.create(2, 34, 2, 38)),
+            ],
+        );
+    });
+
+    it('provides semantic tokens for variables, functions and properties', async () => {
+        const plugin = wrapFragmentPlugin(new TypeScriptPlugin(), TypeScriptPlugin.matchFragment);
+        const manager = new DocumentManager(
+            textDocument => new SvelteDocument(textDocument.uri, textDocument.text),
+        );
+        manager.register(plugin);
+        const document = manager.openDocument({
+            uri: pathToUrl(join(__dirname, 'testfiles', 'typescript', 'Tokens.svelte')),
+            languageId: 'svelte',
+            version: 0,
+            text:
+                '<script lang="ts">import { writable } from "svelte/store";\n' +
+                'const count = writable(0); let user = { name: "" };\n' +
+                'function reset() { count.set(0); }\n$count;</script>\n' +
+                '<button on:click={reset}>{$count} {user.name}</button>',
+        });
+        const tokens = await plugin.getSemanticTokens!(document);
+
+        assert.deepStrictEqual(tokens, [
+            { range: Range.create(0, 27, 0, 35), type: 'function', modifiers: ['declaration'] },
+            {
+                range: Range.create(1, 6, 1, 11),
+                type: 'variable',
+                modifiers: ['declaration', 'readonly'],
+            },
+            { range: Range.create(1, 14, 1, 22), type: 'function', modifiers: [] },
+            { range: Range.create(1, 31, 1, 35), type: 'variable', modifiers: ['declaration'] },
+            { range: Range.create(1, 40, 1, 44), type: 'property', modifiers: ['declaration'] },
+            { range: Range.create(2, 9, 2, 14), type: 'function', modifiers: ['declaration'] },
+            { range: Range.create(2, 19, 2, 24), type: 'variable', modifiers: ['readonly'] },
+            { range: Range.create(2, 25, 2, 28), type: 'function', modifiers: [] },
+            { range: Range.create(3, 0, 3, 6), type: 'variable', modifiers: [] },
+            { range: Range.create(4, 18, 4, 23), type: 'function', modifiers: [] },
+            { range: Range.create(4, 26, 4, 32), type: 'variable', modifiers: [] },
+            { range: Range.create(4, 35, 4, 39), type: 'variable', modifiers: [] },
+            { range: Range.create(4, 40, 4, 44), type: 'property', modifiers: [] },
+        ]);
+    });
+
+    it('resolves auto imports into the instance script', async () => {
+        const { manager, document } = setup(
+            'AutoImport.svelte',
+            '<script lang="ts">\n    import Item from "./Item.svelte";\n    const value = forma\n</script>',
+        );
+        const { items } = await manager.getCompletions(
+            { uri: document.getURL() },
+            Position.create(2, 23),
+        );
+        const format = await manager.resolveCompletion(
+            items.find(item => item.label === 'format')!,
+        );
+        const child = await manager.resolveCompletion(items.find(item => item.label === 'Child')!);
+
+        assert.strictEqual(format.detail, 'function format(value: number): string');
+        assert.deepStrictEqual(format.additionalTextEdits, [
+            TextEdit.insert(Position.create(2, 0), '    import { format } from "./utils";\n'),
+        ]);
+        assert.strictEqual(child.kind, CompletionItemKind.Class);
+        assert.strictEqual(child.detail, "import Child from './Child.svelte'");
+        assert.deepStrictEqual(child.additionalTextEdits, [
+            TextEdit.insert(Position.create(2, 0), '    import Child from "./Child.svelte";\n'),
+        ]);
+    });
+
+    it('provides completions in components without a script', async () => {
+        const { manager, document } = setup(
+            'NoScript.svelte',
+            '<h1>{Math.ro}</h1>\n<p>{forma}</p>',
+        );
+        const members = await manager.getCompletions(
+            { uri: document.getURL() },
+            Position.create(0, 12),
+        );
+        const { items } = await manager.getCompletions(
+            { uri: document.getURL() },
+            Position.create(1, 9),
+        );
+        const format = await manager.resolveCompletion(
+            items.find(item => item.label === 'format')!,
+        );
+
+        assert.ok(members.items.some(item => item.label === 'round'));
+        assert.deepStrictEqual(format.additionalTextEdits, [
+            TextEdit.insert(
+                Position.create(1, 14),
+                '\n<script>\n    import { format } from "./utils";\n</script>\n',
+            ),
+        ]);
+    });
+
+    it('provides folding ranges of the script in the lines of the component', async () => {
+        const { manager, document } = setup(
+            'Folding.svelte',
+            '<h1>Title</h1>\n<script lang="ts">\nfunction add(a: number) {\n    return [\n        a,\n    ];\n}\n</script>\n' +
+                '<p on:click={() => {\n    add(1);\n}}>{[\n1,\n2]}</p>',
+        );
+
+        assert.deepStrictEqual(await manager.getFoldingRanges({ uri: document.getURL() }), [
+            FoldingRange.create(2, 5),
+            FoldingRange.create(3, 4),
+        ]);
+    });
+
+    it('provides workspace symbols of scripts but leaves components to the svelte plugin', async () => {
+        const { manager } = setup('WorkspaceSymbols.svelte', '<script>export let title;</script>');
+        manager.setWorkspaceUris([pathToUrl(join(__dirname, 'testfiles', 'typescript'))]);
+
+        assert.deepStrictEqual(await manager.getWorkspaceSymbols('format'), [
+            {
+                name: 'format',
+                kind: SymbolKind.Function,
+                location: Location.create(
+                    pathToUrl(join(__dirname, 'testfiles', 'typescript', 'utils.ts')),
+                    Range.create(0, 0, 2, 1),
+                ),
+                containerName: undefined,
+            },
+        ]);
+        assert.deepStrictEqual(await manager.getWorkspaceSymbols('title'), []);
+    });
+
+    describe('module scripts', () => {
+        const text =
+            '<script lang="ts">\n    const doubled = limit * 2;\n</script>\n' +
+            '<script context="module" lang="ts">\n    export const limit = 10;\n</script>\n' +
+            '<p>{limit}{doubled}</p>';
+
+        it('provides diagnostics in the lines of both scripts', async () => {
+            const diagnostics = await getDiagnostics(
+                'ModuleDiagnostics.svelte',
+                text.replace('limit = 10', 'limit: string = 10'),
+            );
+
+            assert.deepStrictEqual(
+                diagnostics.map(diagnostic => [diagnostic.range, diagnostic.code]),
+                [[Range.create(4, 17, 4, 22), 2322], [Range.create(1, 20, 1, 25), 2362]],
+            );
+        });
+
+        it('provides hover info of module exports in the instance script and the markup', async () => {
+            const { manager, document } = setup('ModuleHover.svelte', text);
+            const hover = (line: number, character: number) =>
+                manager.doHover({ uri: document.getURL() }, Position.create(line, character));
+
+            assert.deepStrictEqual(await hover(4, 18), <Hover>{
+                range: Range.create(4, 17, 4, 22),
+                contents: { language: 'ts', value: 'const limit: 10' },
+            });
+            assert.deepStrictEqual(await hover(1, 22), <Hover>{
+                range: Range.create(1, 20, 1, 25),
+                contents: { language: 'ts', value: 'const limit: 10' },
+            });
+            assert.deepStrictEqual(await hover(6, 6), <Hover>{
+                range: Range.create(6, 4, 6, 9),
+                contents: { language: 'ts', value: 'const limit: 10' },
+            });
+        });
+
+        it('renames module exports in the instance script and the markup', async () => {
+            const { manager, document } = setup('ModuleRename.svelte', text);
+
+            assert.deepStrictEqual(
+                await manager.rename({ uri: document.getURL() }, Position.create(4, 18), 'max'),
+                {
+                    changes: {
+                        [document.getURL()]: [
+                            TextEdit.replace(Range.create(4, 17, 4, 22), 'max'),
+                            TextEdit.replace(Range.create(1, 20, 1, 25), 'max'),
+                            TextEdit.replace(Range.create(6, 4, 6, 9), 'max'),
+                        ],
+                    },
+                },
+            );
+        });
+    });
+
+    describe('markup expressions', () => {
+        const text =
+            '<script lang="ts">import Child from "./Child.svelte"; let users = [{ name: "a" }]; let text = "";\n' +
+            'const load = Promise.resolve(users); function save(event: MouseEvent) { return event; }</script>\n' +
+            '{#each users as user, index}{user.name}{/each}\n' +
+            '{#await load then loaded}{loaded.length}{:catch error}{error}{/await}\n' +
+            '<Child let:item>{item.}</Child>' +
+            '<input bind:value={text} on:click={save} on:dblclick={e => e.button} />';
+
+        it('provides hover info in blocks, bindings and event handlers', async () => {
+            const { manager, document } = setup('ExpressionsHover.svelte', text);
+            const hover = async (line: number, character: number) => {
+                const info = await manager.doHover(
+                    { uri: document.getURL() },
+                    Position.create(line, character),
+                );
+                return info && [info.range, info.contents];
+            };
+
+            assert.deepStrictEqual(await hover(2, 23), [
+                Range.create(2, 22, 2, 27),
+                { language: 'ts', value: 'const index: number' },
+            ]);
+            assert.deepStrictEqual(await hover(3, 27), [
+                Range.create(3, 26, 3, 32),
+                { language: 'ts', value: 'const loaded: {\n    name: string;\n}[]' },
+            ]);
+            assert.deepStrictEqual(await hover(3, 49), [
+                Range.create(3, 48, 3, 53),
+                { language: 'ts', value: 'const error: any' },
+            ]);
+            assert.deepStrictEqual(await hover(4, 18), [
+                Range.create(4, 17, 4, 21),
+                { language: 'ts', value: 'const item: string' },
+            ]);
+            assert.deepStrictEqual(await hover(4, 51), [
+                Range.create(4, 50, 4, 54),
+                { language: 'ts', value: 'let text: string' },
+            ]);
+            assert.deepStrictEqual(await hover(4, 67), [
+                Range.create(4, 66, 4, 70),
+                { language: 'ts', value: 'function save(event: MouseEvent): MouseEvent' },
+            ]);
+            assert.deepStrictEqual(await hover(4, 90), [
+                Range.create(4, 90, 4, 91),
+                { language: 'ts', value: '(parameter) e: MouseEvent' },
+            ]);
+        });
+
+        it('provides completions in blocks, slots and event handlers', async () => {
+            const { manager, document } = setup('ExpressionsCompletions.svelte', text);
+            const complete = async (line: number, character: number) => {
+                const list = await manager.getCompletions(
+                    { uri: document.getURL() },
+                    Position.create(line, character),
+                );
+                return list.items.map(item => item.label);
+            };
+
+            assert.deepStrictEqual(await complete(2, 34), ['name']);
+            assert.ok((await complete(3, 33)).includes('length'));
+            assert.ok((await complete(4, 22)).includes('charAt'));
+            assert.ok((await complete(4, 92)).includes('button'));
+        });
+
+        it('provides definitions in blocks, slots, bindings and event handlers', async () => {
+            const { manager, document } = setup('ExpressionsDefinitions.svelte', text);
+            const definition = async (line: number, character: number) => {
+                const [link] = await manager.getDefinitions(
+                    { uri: document.getURL() },
+                    Position.create(line, character),
+                );
+                return [link.targetUri, link.targetSelectionRange];
+            };
+
+            assert.deepStrictEqual(await definition(2, 30), [
+                document.getURL(),
+                Range.create(2, 16, 2, 20),
+            ]);
+            assert.deepStrictEqual(await definition(3, 27), [
+                document.getURL(),
+                Range.create(3, 18, 3, 24),
+            ]);
+            assert.deepStrictEqual(await definition(4, 18), [
+                document.getURL(),
+                Range.create(4, 11, 4, 15),
+            ]);
+            assert.deepStrictEqual(await definition(4, 51), [
+                document.getURL(),
+                Range.create(0, 87, 0, 91),
+            ]);
+            assert.deepStrictEqual(await definition(4, 67), [
+                document.getURL(),
+                Range.create(1, 46, 1, 50),
+            ]);
+        });
+    });
+});
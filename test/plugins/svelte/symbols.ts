@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { Range, SymbolInformation, SymbolKind } from '../../../src/api';
+import { SvelteDocument } from '../../../src/lib/documents/SvelteDocument';
+import { getComponentSymbols, matchesSymbolQuery } from '../../../src/plugins/svelte/symbols';
+
+describe('Component Symbols', () => {
+    it('lists the component, its functions, props and selectors', () => {
+        const uri = 'file:///Card.svelte';
+        const document = new SvelteDocument(
+            uri,
+            '<script context="module">export function preload() {}\nconst helper = () => {};</script>\n' +
+                '<script>export let { title, sizes: [small, , large] } = defaults;\n' +
+                'export function open() {}\nlet count;\nfunction toggle() {}</script>\n' +
+                '<h1 class="title">{title}</h1>\n<style>.title {}</style>',
+        );
+        const symbol = (name: string, kind: SymbolKind, range: Range) =>
+            SymbolInformation.create(name, kind, range, uri, 'Card');
+
+        assert.deepStrictEqual(getComponentSymbols(document), [
+            SymbolInformation.create('Card', SymbolKind.Class, Range.create(0, 0, 7, 24), uri),
+            symbol('preload', SymbolKind.Function, Range.create(0, 25, 0, 53)),
+            symbol('helper', SymbolKind.Function, Range.create(1, 6, 1, 23)),
+            symbol('title', SymbolKind.Property, Range.create(2, 21, 2, 26)),
+            symbol('small', SymbolKind.Property, Range.create(2, 36, 2, 41)),
+            symbol('large', SymbolKind.Property, Range.create(2, 45, 2, 50)),
+            symbol('open', SymbolKind.Property, Range.create(3, 0, 3, 25)),
+            symbol('toggle', SymbolKind.Function, Range.create(5, 0, 5, 20)),
+            symbol('.title', SymbolKind.Class, Range.create(7, 7, 7, 16)),
+        ]);
+    });
+
+    it('matches queries by the order of their characters', () => {
+        assert.strictEqual(matchesSymbolQuery('toggleDialog', 'tgd'), true);
+        assert.strictEqual(matchesSymbolQuery('toggleDialog', 'TOGGLE'), true);
+        assert.strictEqual(matchesSymbolQuery('toggleDialog', 'dt'), false);
+    });
+});